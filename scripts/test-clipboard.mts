@@ -0,0 +1,50 @@
+#!/usr/bin/env node
+/**
+ * Verifies how pasted text is turned into profile fragments (parseClipboardFragment): keys, pages
+ * and tabs are accepted, invalid or unrelated JSON is reported instead of pasted.
+ * Usage: npx tsx scripts/test-clipboard.mts
+ */
+
+async function main() {
+  const { parseClipboardFragment, fragmentToKeys, keysToClipboardText } = await import("../src/lib/profileClipboard.ts")
+
+  let passed = 0
+  let failed = 0
+  const check = (name: string, ok: boolean, detail: unknown) => {
+    if (ok) {
+      passed++
+      return
+    }
+    failed++
+    console.error(`FAIL: ${name}\n${JSON.stringify(detail)}`)
+  }
+
+  /** Kind of the parsed fragment, "error" for a reported problem, null for text that is not JSON. */
+  const kindOf = (text: string) => {
+    const parsed = parseClipboardFragment(text)
+    if (parsed == null) return null
+    return parsed.ok ? parsed.fragment.kind : "error"
+  }
+
+  const key = { label: ["WIEN", "RADAR"], station_id: "LOVV_CTR" }
+  check("not JSON", kindOf("LOVV_CTR") === null, kindOf("LOVV_CTR"))
+  check("single key", kindOf(keysToClipboardText([key])) === "keys", kindOf(keysToClipboardText([key])))
+  check("array of keys", kindOf(keysToClipboardText([key, { label: [] }])) === "keys", null)
+  check("page", kindOf('{"rows":2,"keys":[{"label":["A"]}]}') === "page", null)
+  check("tab", kindOf('{"label":["CTR"],"page":{"rows":4,"keys":[]}}') === "tab", null)
+  check("key with subpage", kindOf('{"label":[],"page":{"rows":4,"keys":[]}}') === "keys", null)
+  check("station ID only", kindOf('{"station_id":"LOWW_TWR"}') === "error", parseClipboardFragment('{"station_id":"LOWW_TWR"}'))
+  check("label with 4 lines", kindOf('{"label":["A","B","C","D"]}') === "error", null)
+  check("number", kindOf("42") === "error", null)
+  check("empty object", kindOf("{}") === "error", parseClipboardFragment("{}"))
+  check("unrelated object", kindOf('{"foo":1}') === "error", parseClipboardFragment('{"foo":1}'))
+  check("array with an empty object", kindOf("[{}]") === "error", parseClipboardFragment("[{}]"))
+
+  const pasted = parseClipboardFragment(keysToClipboardText([key]))
+  check("key round trip", pasted?.ok === true && JSON.stringify(fragmentToKeys(pasted.fragment)) === JSON.stringify([key]), pasted)
+
+  console.log(`${passed} passed, ${failed} failed`)
+  process.exit(failed > 0 ? 1 : 0)
+}
+
+main()
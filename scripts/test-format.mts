@@ -0,0 +1,99 @@
+#!/usr/bin/env node
+/**
+ * Verifies that the hand-written JSON formatter matches Prettier byte-for-byte:
+ * the fixture profiles in scripts/fixtures (raw and after normalize + serialize),
+ * plus a seeded corpus of generated documents at several print widths.
+ * Usage: npx tsx scripts/test-format.mts
+ */
+
+import { readdir, readFile } from "node:fs/promises"
+import { fileURLToPath } from "node:url"
+import prettier from "prettier"
+
+const FIXTURES_DIR = fileURLToPath(new URL("./fixtures/", import.meta.url))
+const GENERATED_CASES = 500
+const GENERATED_WIDTHS = [20, 50, 80]
+
+/** Small deterministic PRNG so failures are reproducible. */
+function createRandom(seed: number): () => number {
+  let state = seed
+  return () => {
+    state = (state * 1103515245 + 12345) % 2147483648
+    return state / 2147483648
+  }
+}
+
+const WORDS = ["LOWW", "TWR", "EDGG_B_CTR", "WIEN", "ÅRE", "漢字", "q\"uote\\", "X".repeat(24), ""]
+
+function generate(random: () => number, depth: number): unknown {
+  const pick = random()
+  if (depth > 3 || pick < 0.3) {
+    const kind = random()
+    if (kind < 0.5) return WORDS[Math.floor(random() * WORDS.length)]
+    if (kind < 0.7) return Math.floor(random() * 1000) * (random() < 0.1 ? 1e21 : 1)
+    if (kind < 0.8) return random() < 0.5
+    if (kind < 0.85) return null
+    return random() * 100
+  }
+  if (pick < 0.6) return Array.from({ length: Math.floor(random() * 6) }, () => generate(random, depth + 1))
+  if (pick < 0.7) return Array.from({ length: Math.floor(random() * 30) }, () => Math.floor(random() * 10000))
+  const obj: Record<string, unknown> = {}
+  const size = Math.floor(random() * 4)
+  for (let i = 0; i < size; i++) obj[`${WORDS[Math.floor(random() * WORDS.length)]}${i}`] = generate(random, depth + 1)
+  return obj
+}
+
+async function prettierFormat(value: unknown, printWidth: number): Promise<string> {
+  return prettier.format(JSON.stringify(value, null, 2), {
+    parser: "json",
+    printWidth,
+    tabWidth: 2,
+    useTabs: false,
+    endOfLine: "lf",
+  })
+}
+
+async function main() {
+  const { formatJson } = await import("../src/lib/formatJson.ts")
+  const { serializeProfile, VACS_DATA_FORMAT } = await import("../src/lib/serializeProfile.ts")
+  const { normalizeProfile, validateProfile } = await import("../src/lib/validation.ts")
+
+  let passed = 0
+  let failed = 0
+  const check = (name: string, expected: string, actual: string) => {
+    if (expected === actual) {
+      passed++
+      return
+    }
+    failed++
+    console.error(`FAIL: ${name}\n--- prettier\n${expected}--- formatJson\n${actual}`)
+  }
+
+  const fixtures = (await readdir(FIXTURES_DIR)).filter((f) => f.endsWith(".json")).sort()
+  for (const file of fixtures) {
+    const data = JSON.parse(await readFile(`${FIXTURES_DIR}${file}`, "utf8")) as unknown
+    check(file, await prettierFormat(data, VACS_DATA_FORMAT.printWidth), formatJson(data, VACS_DATA_FORMAT))
+
+    const validated = validateProfile(data, { allowRepairable: true })
+    if (!validated.ok) {
+      failed++
+      console.error(`FAIL: ${file} is not a valid profile: ${JSON.stringify(validated.errors)}`)
+      continue
+    }
+    const serialized = serializeProfile(normalizeProfile(validated.profile))
+    check(`${file} (serializeProfile)`, await prettierFormat(JSON.parse(serialized), VACS_DATA_FORMAT.printWidth), serialized)
+  }
+
+  for (const printWidth of GENERATED_WIDTHS) {
+    const random = createRandom(printWidth)
+    for (let i = 0; i < GENERATED_CASES; i++) {
+      const value = { id: `case-${i}`, tabs: generate(random, 0), extra: generate(random, 1) }
+      check(`generated #${i} (printWidth ${printWidth})`, await prettierFormat(value, printWidth), formatJson(value, { printWidth }))
+    }
+  }
+
+  console.log(`${passed} passed, ${failed} failed`)
+  process.exit(failed > 0 ? 1 : 0)
+}
+
+main()
@@ -0,0 +1,68 @@
+#!/usr/bin/env node
+/**
+ * Verifies the import report end to end: loads scripts/fixtures/import-repairs.json through
+ * validateProfile (allowRepairable) + normalizeProfile and checks every reported change and the
+ * repaired values.
+ * Usage: npx tsx scripts/test-import.mts
+ */
+
+import { readFile } from "node:fs/promises"
+import { fileURLToPath } from "node:url"
+
+const FIXTURE = fileURLToPath(new URL("./fixtures/import-repairs.json", import.meta.url))
+
+/** Path and message of every change the fixture should report, in order. */
+const EXPECTED_CHANGES = [
+  ["id", "Trimmed whitespace"],
+  ["tabs[0].label", "Converted legacy string label to an array"],
+  ["tabs[0].page.rows", "Set missing rows to 4"],
+  ["tabs[0].page.keys[0].label", "Kept only the first 3 label lines"],
+  ["tabs[0].page.keys[1].label", "Added missing label as an empty label"],
+  ["tabs[0].page.keys[2].station_id", "Removed empty station ID"],
+  ["tabs[0].page.keys[2].page.rows", "Rounded rows down to a whole number"],
+]
+
+async function main() {
+  const { normalizeProfile, validateProfile } = await import("../src/lib/validation.ts")
+  type NormalizationChange = import("../src/lib/validation.ts").NormalizationChange
+
+  let passed = 0
+  let failed = 0
+  const check = (name: string, ok: boolean, detail: string) => {
+    if (ok) {
+      passed++
+      return
+    }
+    failed++
+    console.error(`FAIL: ${name}\n${detail}`)
+  }
+
+  const data = JSON.parse(await readFile(FIXTURE, "utf8")) as unknown
+  // Repairs are an import-only leniency: without the option the same file is rejected
+  const strict = validateProfile(data)
+  check("strict validation rejects repairable data", !strict.ok, JSON.stringify(strict))
+
+  const validated = validateProfile(data, { allowRepairable: true })
+  if (!validated.ok) {
+    console.error(`FAIL: fixture is not a valid profile: ${JSON.stringify(validated.errors)}`)
+    process.exit(1)
+  }
+
+  const changes: NormalizationChange[] = []
+  const profile = normalizeProfile(validated.profile, changes)
+  const reported = changes.map((c) => [c.path, c.message])
+  check("reported changes", JSON.stringify(reported) === JSON.stringify(EXPECTED_CHANGES), `expected ${JSON.stringify(EXPECTED_CHANGES)}\nactual   ${JSON.stringify(reported)}`)
+
+  const keys = profile.tabs[0].page.keys ?? []
+  check("id trimmed", profile.id === "LOWW", JSON.stringify(profile.id))
+  check("tab label array", JSON.stringify(profile.tabs[0].label) === '["CTR"]', JSON.stringify(profile.tabs[0].label))
+  check("label cut to 3 lines", JSON.stringify(keys[0]?.label) === '["WIEN","RADAR","NORTH"]', JSON.stringify(keys[0]?.label))
+  check("missing label filled", JSON.stringify(keys[1]?.label) === "[]", JSON.stringify(keys[1]?.label))
+  check("empty station ID dropped", keys[2] != null && !("station_id" in keys[2]), JSON.stringify(keys[2]))
+  check("subpage rows rounded", keys[2]?.page?.rows === 2, JSON.stringify(keys[2]?.page?.rows))
+
+  console.log(`${passed} passed, ${failed} failed`)
+  process.exit(failed > 0 ? 1 : 0)
+}
+
+main()
@@ -52,14 +52,14 @@ async function main() {
 
     try {
       const raw = await fetchJson<unknown>(url)
-      const validated = validateProfile(raw)
+      const validated = validateProfile(raw, { allowRepairable: true })
       if (!validated.ok) {
         console.error(`FAIL: invalid profile: ${JSON.stringify(validated.errors)}`)
         failed++
         continue
       }
       const normalized = normalizeProfile(validated.profile)
-      const serialized = await serializeProfile(normalized)
+      const serialized = serializeProfile(normalized)
 
       let parsed: unknown
       try {
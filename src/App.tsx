@@ -1,14 +1,69 @@
-import { useState, useCallback, useRef, useEffect } from 'react'
-import type { TabbedProfile, DirectAccessKey, DirectAccessPage } from './types'
-import { createDefaultProfile } from './types'
-import { validateProfile, normalizeProfile } from './lib/validation'
+import { useState, useCallback, useRef, useEffect, useMemo } from 'react'
+import {
+  DndContext,
+  DragOverlay,
+  KeyboardSensor,
+  PointerSensor,
+  useSensor,
+  useSensors,
+  type DragEndEvent,
+  type DragStartEvent,
+} from '@dnd-kit/core'
+import { sortableKeyboardCoordinates } from '@dnd-kit/sortable'
+import type { TabbedProfile, Tab, DirectAccessKey, DirectAccessPage, ClientPageConfig } from './types'
+import { createDefaultProfile, createDefaultClientPage } from './types'
+import { validateProfile, normalizeProfile, type NormalizationChange } from './lib/validation'
 import { serializeProfile } from './lib/serializeProfile'
 import { useProfileHistory } from './hooks/useProfileHistory'
-import { loadStations } from './lib/vacsStations'
+import { useStationDataset } from './hooks/useStationDataset'
+import { useLabelTemplates } from './hooks/useLabelTemplates'
+import { lintProfile, DEFAULT_MAX_SUBPAGE_DEPTH, type LintProblem } from './lib/lintProfile'
+import { getKeyCoverage } from './lib/coverage'
+import type { PositionEntry, StationEntry } from './lib/vacsStations'
+import { describeStation } from './lib/stationInfo'
+import { getProfileFirs, rankStationCandidates } from './lib/stationCandidates'
+import { hasStationIdMismatch } from './lib/stationIdMatch'
+import { forEachKey, mapKeys } from './lib/profileWalk'
+import { createStationKey } from './lib/stationLabel'
+import { replaceAll, type FindOptions } from './lib/findReplace'
+import { applyBulkKeyEdit, type BulkKeyEdit } from './lib/bulkEdit'
+import { generateLabel } from './lib/labelTemplates'
+import {
+  keysToClipboardText,
+  tabToClipboardText,
+  parseClipboardFragment,
+  fragmentToKeys,
+  fragmentToTab,
+  formatFragmentErrors,
+} from './lib/profileClipboard'
+import {
+  KEY_GRID_DROP_ID,
+  editorCollisionDetection,
+  getStationDragIds,
+  parseBreadcrumbDropId,
+  parseKeySortableId,
+  parseSubpageDropId,
+  parseTabSortableId,
+} from './lib/dndTargets'
+import { moveKeysToPage, groupKeysIntoSubpage, flattenSubpages, type PageLocation } from './lib/moveKeys'
 import Header from './components/Header'
 import TabBar from './components/TabBar'
 import KeyGrid from './components/KeyGrid'
 import KeyEditor from './components/KeyEditor'
+import ClientPageEditor from './components/ClientPageEditor'
+import ImportReport from './components/ImportReport'
+import ProblemsPanel from './components/ProblemsPanel'
+import DiffPanel from './components/DiffPanel'
+import DatasetPanel from './components/DatasetPanel'
+import CoveragePanel from './components/CoveragePanel'
+import MismatchReviewDialog, { type StationReplacement } from './components/MismatchReviewDialog'
+import DatasetMigrationDialog from './components/DatasetMigrationDialog'
+import StationBrowser from './components/StationBrowser'
+import GenerateProfileDialog from './components/GenerateProfileDialog'
+import StationUsagePanel from './components/StationUsagePanel'
+import FindReplacePanel from './components/FindReplacePanel'
+import BulkKeyEditor from './components/BulkKeyEditor'
+import LabelTemplatesPanel from './components/LabelTemplatesPanel'
 import { IconUndo, IconRedo } from './components/Icons'
 
 /** Path into nested pages: [keyIndex, keyIndex, ...] to reach the current page. Empty = top-level tab page. */
@@ -38,6 +93,30 @@ function getRowsAtPath(profile: TabbedProfile, tabIndex: number, path: SubpagePa
   return page?.rows ?? 4
 }
 
+/** Put text on the system clipboard: into a copy/cut event's data, else via the async API (best effort). */
+function writeClipboardText(text: string, data?: DataTransfer | null): void {
+  if (data != null) data.setData('text/plain', text)
+  else navigator.clipboard?.writeText(text).catch(() => {})
+}
+
+/** Text on the system clipboard, or null when it cannot be read (no permission, unsupported). */
+async function readClipboardText(): Promise<string | null> {
+  try {
+    return (await navigator.clipboard?.readText()) ?? null
+  } catch {
+    return null
+  }
+}
+
+function isEditableTarget(target: EventTarget | null): boolean {
+  return (
+    target instanceof HTMLInputElement ||
+    target instanceof HTMLTextAreaElement ||
+    target instanceof HTMLSelectElement ||
+    (target instanceof HTMLElement && target.isContentEditable)
+  )
+}
+
 export interface BreadcrumbItem {
   label: string
   path: SubpagePath
@@ -64,37 +143,36 @@ function getBreadcrumbItems(profile: TabbedProfile, tabIndex: number, path: Subp
 }
 
 export default function App() {
-  const { profile, mutateProfile, replaceProfile, undo, redo, canUndo, canRedo } = useProfileHistory(createDefaultProfile())
+  const { profile, baseline, mutateProfile, replaceProfile, undo, redo, canUndo, canRedo } = useProfileHistory(createDefaultProfile())
   const [selectedTabIndex, setSelectedTabIndex] = useState(0)
   const [selectedKeyIndices, setSelectedKeyIndices] = useState<number[]>([])
   const [subpagePath, setSubpagePath] = useState<SubpagePath>([])
   const [loadError, setLoadError] = useState<string | null>(null)
+  const [importReport, setImportReport] = useState<{ fileName: string; changes: NormalizationChange[] } | null>(null)
   const [showNewProfileConfirm, setShowNewProfileConfirm] = useState(false)
-  const [stations, setStations] = useState<{ id: string; fir: string }[] | null>(null)
-  const [stationIdsLoadError, setStationIdsLoadError] = useState<string | null>(null)
-  const [stationIdsLoading, setStationIdsLoading] = useState(false)
+  const [showMismatchReview, setShowMismatchReview] = useState(false)
+  const [showDatasetMigration, setShowDatasetMigration] = useState(false)
+  const [showGenerateProfile, setShowGenerateProfile] = useState(false)
+  const stationDataset = useStationDataset()
+  const { stations } = stationDataset
+  const positions = stationDataset.dataset?.positions ?? null
+  const [maxSubpageDepth, setMaxSubpageDepth] = useState(DEFAULT_MAX_SUBPAGE_DEPTH)
+  const [coverageEnabled, setCoverageEnabled] = useState(false)
+  const [onlinePositions, setOnlinePositions] = useState<string[]>([])
+  const { labelTemplates, setLabelTemplates } = useLabelTemplates()
+  const makeLabel = useCallback((stationId: string) => generateLabel(stationId, labelTemplates), [labelTemplates])
   const fileInputRef = useRef<HTMLInputElement>(null)
   const stationIdInputRef = useRef<HTMLInputElement>(null)
   const keyClipboardRef = useRef<{ keys: DirectAccessKey[]; cut: boolean } | null>(null)
-
-  const loadStationsFromGitHub = useCallback(() => {
-    if (stationIdsLoading) return
-    setStationIdsLoadError(null)
-    setStationIdsLoading(true)
-    loadStations()
-      .then(setStations)
-      .catch((err) => setStationIdsLoadError(err instanceof Error ? err.message : String(err)))
-      .finally(() => setStationIdsLoading(false))
-  }, [stationIdsLoading])
-
-  useEffect(() => {
-    setStationIdsLoadError(null)
-    setStationIdsLoading(true)
-    loadStations()
-      .then(setStations)
-      .catch((err) => setStationIdsLoadError(err instanceof Error ? err.message : String(err)))
-      .finally(() => setStationIdsLoading(false))
-  }, [])
+  const tabClipboardRef = useRef<Tab | null>(null)
+  /** Stations being dragged from the station browser, for the drag overlay. */
+  const [draggedStationIds, setDraggedStationIds] = useState<string[] | null>(null)
+  /** Keys being dragged (the dragged one plus the rest of the selection), shown in the drag overlay. */
+  const [draggedKeys, setDraggedKeys] = useState<DirectAccessKey[] | null>(null)
+  const sensors = useSensors(
+    useSensor(PointerSensor, { activationConstraint: { distance: 8 } }),
+    useSensor(KeyboardSensor, { coordinateGetter: sortableKeyboardCoordinates })
+  )
 
   useEffect(() => {
     const handler = (e: MouseEvent) => {
@@ -227,10 +305,36 @@ export default function App() {
     [mutatePageAtPath, subpagePath]
   )
 
-  const addTab = useCallback(() => {
+  const updateCurrentClientPage = useCallback(
+    (updater: (c: ClientPageConfig) => ClientPageConfig) => {
+      mutatePageAtPath(subpagePath, (page) =>
+        page.client_page != null ? { ...page, client_page: updater(page.client_page) } : page
+      )
+    },
+    [mutatePageAtPath, subpagePath]
+  )
+
+  /** Switch the current page between keys and a client page. Keys are dropped (undoable) when converting to a client page. */
+  const convertCurrentPage = useCallback(() => {
+    if (isClientPage) {
+      mutatePageAtPath(subpagePath, (page) => ({ ...page, client_page: undefined, keys: [] }))
+      return
+    }
+    if (currentKeys.length > 0 && !window.confirm(`Replace ${currentKeys.length} key(s) on this page with a client page?`)) return
+    mutatePageAtPath(subpagePath, (page) => ({ ...page, keys: undefined, client_page: createDefaultClientPage() }))
+    setSelectedKeyIndices([])
+  }, [isClientPage, currentKeys.length, mutatePageAtPath, subpagePath])
+
+  const addTab = useCallback((clientPage = false) => {
     mutateProfile((p) => ({
       ...p,
-      tabs: [...p.tabs, { label: [`Tab ${p.tabs.length + 1}`], page: { rows: 4, keys: [] } }],
+      tabs: [
+        ...p.tabs,
+        {
+          label: [`Tab ${p.tabs.length + 1}`],
+          page: clientPage ? { rows: 4, client_page: createDefaultClientPage() } : { rows: 4, keys: [] },
+        },
+      ],
     }))
     setSelectedTabIndex(profile.tabs.length)
     setSelectedKeyIndices([])
@@ -308,6 +412,19 @@ export default function App() {
     }))
   }, [mutatePageAtPath, subpagePath, selectedKeyIndices])
 
+  /** Apply one edit to every selected key on the current page as a single history entry. */
+  const bulkEditKeys = useCallback(
+    (edit: BulkKeyEdit) => {
+      if (selectedKeyIndices.length === 0) return
+      const selSet = new Set(selectedKeyIndices)
+      mutatePageAtPath(subpagePath, (page) => ({
+        ...page,
+        keys: (page.keys ?? []).map((k, i) => (selSet.has(i) ? applyBulkKeyEdit(k, edit, makeLabel) : k)),
+      }))
+    },
+    [mutatePageAtPath, subpagePath, selectedKeyIndices, makeLabel]
+  )
+
   const moveKey = useCallback(
     (from: number, to: number, swap = false) => {
       if (to < 0 || (swap ? to >= currentKeys.length : to > currentKeys.length)) return
@@ -337,6 +454,24 @@ export default function App() {
     })
   }, [selectedKeyIndices, mutatePageAtPath, subpagePath])
 
+  /** Replace the selected keys with a folder key (selected afterwards) whose subpage holds them. */
+  const groupSelectedKeys = useCallback(() => {
+    if (currentPage == null) return
+    const result = groupKeysIntoSubpage(currentPage, selectedKeyIndices)
+    if (result == null) return
+    mutatePageAtPath(subpagePath, () => result.page)
+    setSelectedKeyIndices(result.keyIndices)
+  }, [currentPage, selectedKeyIndices, mutatePageAtPath, subpagePath])
+
+  /** Inline the subpages of the selected keys at their positions; the inlined keys are selected afterwards. */
+  const flattenSelectedSubpages = useCallback(() => {
+    if (currentPage == null) return
+    const result = flattenSubpages(currentPage, selectedKeyIndices)
+    if (result == null) return
+    mutatePageAtPath(subpagePath, () => result.page)
+    setSelectedKeyIndices(result.keyIndices)
+  }, [currentPage, selectedKeyIndices, mutatePageAtPath, subpagePath])
+
   const moveSelectedKeys = useCallback(
     (direction: 'up' | 'down' | 'left' | 'right') => {
       const sorted = [...selectedKeyIndices].sort((a, b) => a - b)
@@ -397,16 +532,20 @@ export default function App() {
     [selectedKeyIndices, currentKeys, currentRows, mutatePageAtPath, subpagePath, moveKey]
   )
 
-  const copyKeys = useCallback(() => {
+  /** Copy the selected keys to the system clipboard (as JSON) and the in-app clipboard. */
+  const copyKeys = useCallback((data?: DataTransfer | null) => {
     if (selectedKeyIndices.length === 0) return
     const keys = selectedKeyIndices
       .sort((a, b) => a - b)
       .map((i) => currentKeys[i])
       .filter(Boolean)
-    if (keys.length > 0) keyClipboardRef.current = { keys: JSON.parse(JSON.stringify(keys)), cut: false }
+    if (keys.length > 0) {
+      keyClipboardRef.current = { keys: JSON.parse(JSON.stringify(keys)), cut: false }
+      writeClipboardText(keysToClipboardText(keys), data)
+    }
   }, [selectedKeyIndices, currentKeys])
 
-  const cutKeys = useCallback(() => {
+  const cutKeys = useCallback((data?: DataTransfer | null) => {
     if (selectedKeyIndices.length === 0) return
     const keys = selectedKeyIndices
       .sort((a, b) => a - b)
@@ -414,6 +553,7 @@ export default function App() {
       .filter(Boolean)
     if (keys.length > 0) {
       keyClipboardRef.current = { keys: JSON.parse(JSON.stringify(keys)), cut: true }
+      writeClipboardText(keysToClipboardText(keys), data)
       mutatePageAtPath(subpagePath, (page) => ({
         ...page,
         keys: (page.keys ?? []).filter((_, i) => !selectedKeyIndices.includes(i)),
@@ -422,18 +562,77 @@ export default function App() {
     }
   }, [selectedKeyIndices, currentKeys, mutatePageAtPath, subpagePath])
 
-  const pasteKeys = useCallback(() => {
-    const clip = keyClipboardRef.current
-    if (!clip || clip.keys.length === 0) return
+  /**
+   * Paste after the selection (or at the end): keys from `text` when it is a profile JSON fragment,
+   * else from the in-app clipboard.
+   */
+  const pasteKeys = useCallback((text?: string | null) => {
+    if (isClientPage) return
+    const parsed = text != null ? parseClipboardFragment(text) : null
+    let pasted: DirectAccessKey[]
+    if (parsed != null) {
+      if (!parsed.ok) {
+        setLoadError(`Cannot paste:\n${formatFragmentErrors(parsed.errors)}`)
+        return
+      }
+      const keys = fragmentToKeys(parsed.fragment)
+      if (keys == null) {
+        setLoadError('Cannot paste a client page as keys; paste it as a tab')
+        return
+      }
+      pasted = keys
+    } else {
+      const clip = keyClipboardRef.current
+      if (!clip) return
+      pasted = clip.keys
+      if (clip.cut) keyClipboardRef.current = null
+    }
+    if (pasted.length === 0) return
     const insertAt = selectedKeyIndices.length > 0 ? Math.max(...selectedKeyIndices) + 1 : currentKeys.length
     mutatePageAtPath(subpagePath, (page) => {
       const keys = page.keys ?? []
-      const nextKeys = [...keys.slice(0, insertAt), ...clip.keys, ...keys.slice(insertAt)]
+      const nextKeys = [...keys.slice(0, insertAt), ...pasted, ...keys.slice(insertAt)]
       return { ...page, keys: nextKeys }
     })
-    setSelectedKeyIndices(clip.keys.map((_, i) => insertAt + i))
-    if (clip.cut) keyClipboardRef.current = null
-  }, [selectedKeyIndices, currentKeys.length, mutatePageAtPath, subpagePath])
+    setSelectedKeyIndices(pasted.map((_, i) => insertAt + i))
+    setLoadError(null)
+  }, [isClientPage, selectedKeyIndices, currentKeys.length, mutatePageAtPath, subpagePath])
+
+  /** Paste button: the system clipboard when it can be read, else the in-app clipboard. */
+  const pasteKeysFromClipboard = useCallback(() => {
+    readClipboardText().then(pasteKeys)
+  }, [pasteKeys])
+
+  const copyTab = useCallback(() => {
+    const tab = profile.tabs[selectedTabIndex]
+    if (!tab) return
+    tabClipboardRef.current = JSON.parse(JSON.stringify(tab))
+    writeClipboardText(tabToClipboardText(tab))
+  }, [profile.tabs, selectedTabIndex])
+
+  /** Insert a tab after the selected one from the system clipboard (a tab, page or keys), else the in-app copy. */
+  const pasteTab = useCallback(async () => {
+    const text = await readClipboardText()
+    const parsed = text != null ? parseClipboardFragment(text) : null
+    let tab: Tab
+    if (parsed != null) {
+      if (!parsed.ok) {
+        setLoadError(`Cannot paste:\n${formatFragmentErrors(parsed.errors)}`)
+        return
+      }
+      tab = fragmentToTab(parsed.fragment, [`Tab ${profile.tabs.length + 1}`])
+    } else if (tabClipboardRef.current != null) {
+      tab = JSON.parse(JSON.stringify(tabClipboardRef.current))
+    } else {
+      return
+    }
+    const at = selectedTabIndex + 1
+    mutateProfile((p) => ({ ...p, tabs: [...p.tabs.slice(0, at), tab, ...p.tabs.slice(at)] }))
+    setSelectedTabIndex(at)
+    setSelectedKeyIndices([])
+    setSubpagePath([])
+    setLoadError(null)
+  }, [mutateProfile, profile.tabs.length, selectedTabIndex])
 
   const reorderKeys = useCallback(
     (from: number, to: number) => {
@@ -451,19 +650,22 @@ export default function App() {
     e.target.value = ''
     if (!file) return
     setLoadError(null)
+    setImportReport(null)
     const reader = new FileReader()
     reader.onload = () => {
       try {
         const text = reader.result as string
         const data = JSON.parse(text) as unknown
-        const result = validateProfile(data)
+        const result = validateProfile(data, { allowRepairable: true })
         if (result.ok) {
-          replaceProfile(normalizeProfile(result.profile))
+          const changes: NormalizationChange[] = []
+          replaceProfile(normalizeProfile(result.profile, changes))
+          setImportReport(changes.length > 0 ? { fileName: file.name, changes } : null)
           setSelectedTabIndex(0)
           setSelectedKeyIndices([])
           setSubpagePath([])
         } else {
-          setLoadError(result.errors.map((err) => `${err.path}: ${err.message}`).join('; '))
+          setLoadError(result.errors.map((err) => `${err.path}: ${err.message}`).join('\n'))
         }
       } catch (err) {
         setLoadError(err instanceof Error ? err.message : 'Invalid JSON')
@@ -473,8 +675,8 @@ export default function App() {
   }, [])
 
   const downloadProfile = useCallback(
-    async (filename: string) => {
-      const json = await serializeProfile(profile)
+    (filename: string) => {
+      const json = serializeProfile(profile)
       const blob = new Blob([json], { type: 'application/json' })
       const url = URL.createObjectURL(blob)
       const a = document.createElement('a')
@@ -488,7 +690,7 @@ export default function App() {
 
   const handleSaveAs = useCallback(() => {
     const name = window.prompt('Filename', `${profile.id}.json`)?.trim()
-    if (name) void downloadProfile(name)
+    if (name) downloadProfile(name)
   }, [downloadProfile, profile.id])
 
   const applyNewProfile = useCallback(() => {
@@ -497,16 +699,27 @@ export default function App() {
     setSelectedKeyIndices([])
     setSubpagePath([])
     setLoadError(null)
+    setImportReport(null)
     setShowNewProfileConfirm(false)
   }, [])
 
+  const applyGeneratedProfile = useCallback((generated: TabbedProfile) => {
+    replaceProfile(generated)
+    setSelectedTabIndex(0)
+    setSelectedKeyIndices([])
+    setSubpagePath([])
+    setLoadError(null)
+    setImportReport(null)
+    setShowGenerateProfile(false)
+  }, [])
+
   const newProfile = useCallback(() => {
     setShowNewProfileConfirm(true)
   }, [])
 
-  const handleNewProfileSaveAndNew = useCallback(async () => {
+  const handleNewProfileSaveAndNew = useCallback(() => {
     setShowNewProfileConfirm(false)
-    await downloadProfile(`${profile.id}.json`)
+    downloadProfile(`${profile.id}.json`)
     applyNewProfile()
   }, [downloadProfile, profile.id, applyNewProfile])
 
@@ -528,17 +741,13 @@ export default function App() {
   useEffect(() => {
     const handler = (e: KeyboardEvent) => {
       const target = e.target as Node
-      if (target instanceof HTMLInputElement || target instanceof HTMLTextAreaElement) return
+      if (target instanceof HTMLInputElement || target instanceof HTMLTextAreaElement || target instanceof HTMLSelectElement) return
       if (selectedKeyIndices.length === 0 || isClientPage) return
-      if (e.ctrlKey && e.key === 'c') {
+      // Ctrl+C/X/V arrive as copy/cut/paste events (see below)
+      if (e.ctrlKey && (e.key === 'g' || e.key === 'G')) {
         e.preventDefault()
-        copyKeys()
-      } else if (e.ctrlKey && e.key === 'x') {
-        e.preventDefault()
-        cutKeys()
-      } else if (e.ctrlKey && e.key === 'v') {
-        e.preventDefault()
-        pasteKeys()
+        if (e.shiftKey) flattenSelectedSubpages()
+        else groupSelectedKeys()
       } else if (e.key === 'Enter') {
         const primary = selectedKeyIndices[0]
         if (primary != null) {
@@ -576,7 +785,73 @@ export default function App() {
     }
     window.addEventListener('keydown', handler)
     return () => window.removeEventListener('keydown', handler)
-  }, [selectedKeyIndices, currentKeys, currentRows, isClientPage, moveKey, moveSelectedKeys, goToSubpage, removeKey, clearKeys, copyKeys, cutKeys, pasteKeys])
+  }, [selectedKeyIndices, currentKeys, currentRows, isClientPage, moveKey, moveSelectedKeys, goToSubpage, removeKey, clearKeys, groupSelectedKeys, flattenSelectedSubpages])
+
+  // System clipboard: keys go out as profile JSON; pasted JSON fragments come in, other text falls back to the in-app clipboard
+  useEffect(() => {
+    const onCopyOrCut = (e: ClipboardEvent) => {
+      if (isEditableTarget(e.target) || selectedKeyIndices.length === 0 || isClientPage) return
+      e.preventDefault()
+      if (e.type === 'cut') cutKeys(e.clipboardData)
+      else copyKeys(e.clipboardData)
+    }
+    const onPaste = (e: ClipboardEvent) => {
+      if (isEditableTarget(e.target) || isClientPage) return
+      e.preventDefault()
+      pasteKeys(e.clipboardData?.getData('text/plain'))
+    }
+    document.addEventListener('copy', onCopyOrCut)
+    document.addEventListener('cut', onCopyOrCut)
+    document.addEventListener('paste', onPaste)
+    return () => {
+      document.removeEventListener('copy', onCopyOrCut)
+      document.removeEventListener('cut', onCopyOrCut)
+      document.removeEventListener('paste', onPaste)
+    }
+  }, [selectedKeyIndices, isClientPage, copyKeys, cutKeys, pasteKeys])
+
+  /** Navigate to a page and select a key on it (or nothing for page-level targets). */
+  const goToLocation = useCallback((tabIndex: number, path: SubpagePath, keyIndex?: number) => {
+    setSelectedTabIndex(tabIndex)
+    setSubpagePath(path)
+    setSelectedKeyIndices(keyIndex != null ? [keyIndex] : [])
+  }, [])
+
+  const handleSelectProblem = useCallback(
+    (problem: LintProblem) => goToLocation(problem.tabIndex, problem.path, problem.keyIndex),
+    [goToLocation]
+  )
+
+  const stationsById = useMemo(() => {
+    const map = new Map<string, StationEntry>()
+    for (const s of stations ?? []) map.set(s.id, s)
+    return map
+  }, [stations])
+
+  const positionsById = useMemo(() => {
+    const map = new Map<string, PositionEntry>()
+    for (const p of positions ?? []) map.set(p.id, p)
+    return map
+  }, [positions])
+
+  const getStationTooltip = useCallback(
+    (stationId: string) => {
+      const entry = stationsById.get(stationId)
+      return entry != null ? describeStation(entry, stationsById, positionsById) : undefined
+    },
+    [stationsById, positionsById]
+  )
+
+  const keyCoverage = useMemo(() => {
+    if (!coverageEnabled || stationsById.size === 0) return null
+    const online = new Set(onlinePositions)
+    return currentKeys.map((key) => getKeyCoverage(key, stationsById, online))
+  }, [coverageEnabled, stationsById, onlinePositions, currentKeys])
+
+  const problems = useMemo(
+    () => lintProfile(profile, { stations, maxSubpageDepth }),
+    [profile, stations, maxSubpageDepth]
+  )
 
   const handleSelectKey = useCallback((index: number, addToSelection: boolean, rangeSelect: boolean) => {
     if (rangeSelect && selectedKeyIndices.length > 0) {
@@ -607,8 +882,177 @@ export default function App() {
     [currentKeys, goToSubpage]
   )
 
+  const profileFirs = useMemo(() => getProfileFirs(profile.id, stations ?? []), [profile.id, stations])
+
+  const applyStationReplacements = useCallback(
+    (replacements: StationReplacement[]) => {
+      const byLocation = new Map(
+        replacements.map((r) => [`${r.location.tabIndex}/${r.location.path.join('.')}/${r.location.keyIndex}`, r.stationId])
+      )
+      mutateProfile((p) =>
+        mapKeys(p, (key, loc) => {
+          const stationId = byLocation.get(`${loc.tabIndex}/${loc.path.join('.')}/${loc.keyIndex}`)
+          return stationId != null ? { ...key, station_id: stationId } : key
+        })
+      )
+      setShowMismatchReview(false)
+    },
+    [mutateProfile]
+  )
+
+  const applyStationRenames = useCallback(
+    (renames: Map<string, string>) => {
+      mutateProfile((p) =>
+        mapKeys(p, (key) => {
+          const stationId = renames.get(key.station_id?.trim() ?? '')
+          return stationId != null ? { ...key, station_id: stationId } : key
+        })
+      )
+      setShowDatasetMigration(false)
+    },
+    [mutateProfile]
+  )
+
+  /** Relabel every key with a station ID on the current tab, subpages included, from the label templates. */
+  const regenerateTabLabels = useCallback(() => {
+    mutateProfile((p) =>
+      mapKeys(p, (key, loc) => {
+        const stationId = key.station_id?.trim()
+        return loc.tabIndex === selectedTabIndex && stationId ? { ...key, label: makeLabel(stationId) } : key
+      })
+    )
+  }, [mutateProfile, selectedTabIndex, makeLabel])
+
+  const applyFindReplace = useCallback(
+    (options: FindOptions) => mutateProfile((p) => replaceAll(p, options)),
+    [mutateProfile]
+  )
+
   const primaryKeyIndex = selectedKeyIndices.length > 0 ? selectedKeyIndices[0]! : null
   const selectedKey = primaryKeyIndex != null ? currentKeys[primaryKeyIndex] ?? null : null
+  const selectedStationId = selectedKey?.station_id
+
+  // Station IDs on the current page and every page above it, for ranking suggestions
+  const nearbyStationIds = useMemo(() => {
+    const ids: string[] = []
+    for (let depth = 0; depth <= subpagePath.length; depth++) {
+      const page = getPageAtPath(profile, selectedTabIndex, subpagePath.slice(0, depth))
+      for (const key of page?.keys ?? []) if (key.station_id?.trim()) ids.push(key.station_id.trim())
+    }
+    return ids
+  }, [profile, selectedTabIndex, subpagePath])
+
+  /** Number of keys per station ID anywhere in the profile, for the station browser's "used" markers. */
+  const usedStationIds = useMemo(() => {
+    const counts = new Map<string, number>()
+    forEachKey(profile, (key) => {
+      const stationId = key.station_id?.trim()
+      if (stationId) counts.set(stationId, (counts.get(stationId) ?? 0) + 1)
+    })
+    return counts
+  }, [profile])
+
+  /**
+   * Create keys for dataset stations on the current page: appended when `targetIndex` is null,
+   * filling the target if it is an empty key (further stations follow it), else inserted before it.
+   */
+  const insertStationKeys = useCallback(
+    (stationIds: string[], targetIndex: number | null) => {
+      if (isClientPage) return
+      const newKeys = stationIds.flatMap((id) => {
+        const station = stationsById.get(id)
+        return station != null ? [createStationKey(station, makeLabel)] : []
+      })
+      if (newKeys.length === 0) return
+      const target = targetIndex != null ? currentKeys[targetIndex] : undefined
+      const fillTarget =
+        target != null && target.page == null && !target.station_id?.trim() && target.label.every((l) => l.trim() === '')
+      const insertAt = targetIndex ?? currentKeys.length
+      mutatePageAtPath(subpagePath, (page) => {
+        const keys = [...(page.keys ?? [])]
+        keys.splice(insertAt, fillTarget ? 1 : 0, ...newKeys)
+        return { ...page, keys }
+      })
+      setSelectedKeyIndices(newKeys.map((_, i) => insertAt + i))
+    },
+    [isClientPage, stationsById, makeLabel, currentKeys, mutatePageAtPath, subpagePath]
+  )
+
+  /**
+   * Move the dragged key (with the rest of the selection, if it is selected) to the end of another
+   * page: a tab, a page up the breadcrumb or a key's subpage. One undo step; the current page stays open.
+   */
+  const moveKeysTo = useCallback(
+    (draggedIndex: number, to: PageLocation) => {
+      const indices = selectedKeyIndices.includes(draggedIndex) ? selectedKeyIndices : [draggedIndex]
+      const from = { tabIndex: selectedTabIndex, path: subpagePath }
+      // Skip impossible moves (same page, into itself, client page) so they leave no undo step
+      if (moveKeysToPage(profile, from, indices, to) == null) return
+      mutateProfile((p) => moveKeysToPage(p, from, indices, to) ?? p)
+      setSelectedKeyIndices([])
+    },
+    [selectedKeyIndices, profile, selectedTabIndex, subpagePath, mutateProfile]
+  )
+
+  const handleDragStart = useCallback(
+    (event: DragStartEvent) => {
+      setDraggedStationIds(getStationDragIds(event.active))
+      const keyIndex = parseKeySortableId(event.active.id)
+      const indices = keyIndex == null ? [] : selectedKeyIndices.includes(keyIndex) ? selectedKeyIndices : [keyIndex]
+      setDraggedKeys(indices.length > 0 ? indices.map((i) => currentKeys[i]).filter(Boolean) : null)
+    },
+    [selectedKeyIndices, currentKeys]
+  )
+
+  const handleDragCancel = useCallback(() => {
+    setDraggedStationIds(null)
+    setDraggedKeys(null)
+  }, [])
+
+  const handleDragEnd = useCallback(
+    (event: DragEndEvent) => {
+      setDraggedStationIds(null)
+      setDraggedKeys(null)
+      const { active, over } = event
+      if (over == null) return
+      const stationIds = getStationDragIds(active)
+      if (stationIds != null) {
+        if (over.id === KEY_GRID_DROP_ID) insertStationKeys(stationIds, null)
+        else {
+          const targetIndex = parseKeySortableId(over.id)
+          if (targetIndex != null) insertStationKeys(stationIds, targetIndex)
+        }
+        return
+      }
+      const fromTab = parseTabSortableId(active.id)
+      if (fromTab != null) {
+        const toTab = parseTabSortableId(over.id)
+        if (toTab != null && fromTab !== toTab) reorderTabs(fromTab, toTab)
+        return
+      }
+      const from = parseKeySortableId(active.id)
+      if (from == null) return
+      const targetTab = parseTabSortableId(over.id)
+      const targetDepth = parseBreadcrumbDropId(over.id)
+      const targetSubpage = parseSubpageDropId(over.id)
+      if (targetTab != null) moveKeysTo(from, { tabIndex: targetTab, path: [] })
+      else if (targetDepth != null) moveKeysTo(from, { tabIndex: selectedTabIndex, path: subpagePath.slice(0, targetDepth) })
+      else if (targetSubpage != null) moveKeysTo(from, { tabIndex: selectedTabIndex, path: [...subpagePath, targetSubpage] })
+      else {
+        const to = parseKeySortableId(over.id)
+        if (to != null && from !== to) reorderKeys(from, to)
+      }
+    },
+    [insertStationKeys, reorderTabs, moveKeysTo, selectedTabIndex, subpagePath, reorderKeys]
+  )
+
+  const selectedKeyCandidates = useMemo(
+    () =>
+      stations != null && selectedStationId != null && hasStationIdMismatch(selectedStationId, stations)
+        ? rankStationCandidates(selectedStationId, stations, profileFirs)
+        : [],
+    [stations, selectedStationId, profileFirs]
+  )
 
   return (
     <div className="app">
@@ -618,6 +1062,7 @@ export default function App() {
         onNew={newProfile}
         onLoad={handleLoad}
         onSaveAs={handleSaveAs}
+        onGenerate={stations != null && stations.length > 0 ? () => setShowGenerateProfile(true) : undefined}
         fileInputRef={fileInputRef}
         onFileChange={handleFileChange}
       />
@@ -626,6 +1071,9 @@ export default function App() {
           {loadError}
         </div>
       )}
+      {importReport && (
+        <ImportReport fileName={importReport.fileName} changes={importReport.changes} onDismiss={() => setImportReport(null)} />
+      )}
       {showNewProfileConfirm && (
         <div className="modal-overlay" role="dialog" aria-modal="true" aria-labelledby="new-profile-dialog-title">
           <div className="modal">
@@ -645,118 +1093,255 @@ export default function App() {
           </div>
         </div>
       )}
-      <main className="main-content">
-        <section className="tab-editor">
-          <h3>Tab</h3>
-          <label>
-            Label line 1
-            <input
-              type="text"
-              value={profile.tabs[selectedTabIndex]?.label[0] ?? ''}
-              onChange={(e) => setTabLabelLine(selectedTabIndex, 0, e.target.value)}
-              placeholder="First line"
-            />
-          </label>
-          <label>
-            Label line 2
-            <input
-              type="text"
-              value={profile.tabs[selectedTabIndex]?.label[1] ?? ''}
-              onChange={(e) => setTabLabelLine(selectedTabIndex, 1, e.target.value)}
-              placeholder="Second line (optional)"
-            />
-          </label>
-          <label>
-            Label line 3
-            <input
-              type="text"
-              value={profile.tabs[selectedTabIndex]?.label[2] ?? ''}
-              onChange={(e) => setTabLabelLine(selectedTabIndex, 2, e.target.value)}
-              placeholder="Third line (optional)"
-            />
-          </label>
-          <label>
-            Rows
-            <input
-              type="number"
-              min={1}
-              value={currentRows}
-              onChange={(e) => setCurrentPageRows(parseInt(e.target.value, 10) || 1)}
-            />
-          </label>
-        </section>
-        <section className="grid-area">
-          <KeyGrid
-            keys={currentKeys}
-            rows={currentRows}
-            selectedKeyIndices={selectedKeyIndices}
-            onSelectKey={handleSelectKey}
-            onDoubleClickKey={handleDoubleClickKey}
-            onReorderKeys={reorderKeys}
-            onMoveSelectedKeys={moveSelectedKeys}
-            onAddKey={addKey}
-            onRemoveKey={removeKey}
-            onSwapKeys={selectedKeyIndices.length === 2 ? swapSelectedKeys : undefined}
-            onCopyKeys={copyKeys}
-            onCutKeys={cutKeys}
-            onPasteKeys={pasteKeys}
-            breadcrumbItems={getBreadcrumbItems(profile, selectedTabIndex, subpagePath)}
-            onBackToPath={goBackToPath}
-            isClientPage={isClientPage}
-            stations={stations}
-            tabBarSlot={
-              <TabBar
-                tabs={profile.tabs}
-                selectedIndex={selectedTabIndex}
-                onSelectTab={setSelectedTabIndex}
-                onReorderTabs={reorderTabs}
-                onAddTab={addTab}
-                onDuplicateTab={duplicateTab}
-                onRemoveTab={removeTab}
+      {showMismatchReview && stations != null && (
+        <MismatchReviewDialog
+          profile={profile}
+          stations={stations}
+          profileFirs={profileFirs}
+          onApply={applyStationReplacements}
+          onClose={() => setShowMismatchReview(false)}
+        />
+      )}
+      {showDatasetMigration && stationDataset.dataset != null && stationDataset.previousDataset != null && (
+        <DatasetMigrationDialog
+          profile={profile}
+          previous={stationDataset.previousDataset}
+          current={stationDataset.dataset}
+          profileFirs={profileFirs}
+          onApply={applyStationRenames}
+          onClose={() => setShowDatasetMigration(false)}
+        />
+      )}
+      {showGenerateProfile && stations != null && (
+        <GenerateProfileDialog
+          stations={stations}
+          defaultFir={[...profileFirs][0]}
+          makeLabel={makeLabel}
+          onGenerate={applyGeneratedProfile}
+          onClose={() => setShowGenerateProfile(false)}
+        />
+      )}
+      <DndContext
+        sensors={sensors}
+        collisionDetection={editorCollisionDetection}
+        onDragStart={handleDragStart}
+        onDragEnd={handleDragEnd}
+        onDragCancel={handleDragCancel}
+      >
+        <main className="main-content">
+          <section className="tab-editor">
+            <h3>Tab</h3>
+            <label>
+              Label line 1
+              <input
+                type="text"
+                value={profile.tabs[selectedTabIndex]?.label[0] ?? ''}
+                onChange={(e) => setTabLabelLine(selectedTabIndex, 0, e.target.value)}
+                placeholder="First line"
               />
-            }
-          />
-        </section>
-        <aside className="main-sidebar">
-          <div className="undo-redo-bar">
-            <button type="button" onClick={undo} disabled={!canUndo} className="undo-redo-btn" title="Undo (Ctrl+Z)" aria-label="Undo">
-              <IconUndo />
-            </button>
-            <button type="button" onClick={redo} disabled={!canRedo} className="undo-redo-btn" title="Redo (Ctrl+Shift+Z)" aria-label="Redo">
-              <IconRedo />
+            </label>
+            <label>
+              Label line 2
+              <input
+                type="text"
+                value={profile.tabs[selectedTabIndex]?.label[1] ?? ''}
+                onChange={(e) => setTabLabelLine(selectedTabIndex, 1, e.target.value)}
+                placeholder="Second line (optional)"
+              />
+            </label>
+            <label>
+              Label line 3
+              <input
+                type="text"
+                value={profile.tabs[selectedTabIndex]?.label[2] ?? ''}
+                onChange={(e) => setTabLabelLine(selectedTabIndex, 2, e.target.value)}
+                placeholder="Third line (optional)"
+              />
+            </label>
+            <label>
+              Rows
+              <input
+                type="number"
+                min={1}
+                value={currentRows}
+                onChange={(e) => setCurrentPageRows(parseInt(e.target.value, 10) || 1)}
+              />
+            </label>
+            <button type="button" onClick={convertCurrentPage}>
+              {isClientPage ? 'Convert to key page' : 'Convert to client page'}
             </button>
-          </div>
-          <div className="key-editor-wrap">
-            <KeyEditor
-              keyData={selectedKey}
-              keyIndex={primaryKeyIndex}
-              selectedCount={selectedKeyIndices.length}
-              stationIdInputRef={stationIdInputRef}
-              stations={stations}
-              stationIdsLoadError={stationIdsLoadError}
-              stationIdsLoading={stationIdsLoading}
-              onLoadStations={loadStationsFromGitHub}
-              onUpdateKey={(updater) => {
-                if (primaryKeyIndex == null) return
-                updateKeyAtPath(subpagePath, primaryKeyIndex, updater)
-              }}
-              onClearKeys={clearKeys}
+          </section>
+          <section className="grid-area">
+            <KeyGrid
+              keys={currentKeys}
+              rows={currentRows}
+              selectedKeyIndices={selectedKeyIndices}
+              onSelectKey={handleSelectKey}
+              onDoubleClickKey={handleDoubleClickKey}
+              onMoveSelectedKeys={moveSelectedKeys}
+              onAddKey={addKey}
               onRemoveKey={removeKey}
-              onGoToSubpage={primaryKeyIndex != null ? () => goToSubpage(primaryKeyIndex) : undefined}
-              onRemoveSubpage={
-                selectedKey?.page != null
-                  ? () => {
-                      if (primaryKeyIndex == null) return
-                      updateKeyAtPath(subpagePath, primaryKeyIndex, (k) => ({ ...k, page: undefined }))
-                      setSelectedKeyIndices([])
-                    }
+              onSwapKeys={selectedKeyIndices.length === 2 ? swapSelectedKeys : undefined}
+              onCopyKeys={() => copyKeys()}
+              onCutKeys={() => cutKeys()}
+              onPasteKeys={pasteKeysFromClipboard}
+              onGroupKeys={groupSelectedKeys}
+              onFlattenSubpages={
+                selectedKeyIndices.some((i) => currentKeys[i]?.page != null && currentKeys[i].page!.client_page == null)
+                  ? flattenSelectedSubpages
                   : undefined
               }
-              hasSubpage={selectedKey?.page != null}
+              breadcrumbItems={getBreadcrumbItems(profile, selectedTabIndex, subpagePath)}
+              onBackToPath={goBackToPath}
+              isClientPage={isClientPage}
+              stations={stations}
+              coverage={keyCoverage}
+              getStationTooltip={getStationTooltip}
+              tabBarSlot={
+                <TabBar
+                  tabs={profile.tabs}
+                  selectedIndex={selectedTabIndex}
+                  onSelectTab={setSelectedTabIndex}
+                  onAddTab={() => addTab()}
+                  onAddClientPageTab={() => addTab(true)}
+                  onDuplicateTab={duplicateTab}
+                  onCopyTab={copyTab}
+                  onPasteTab={pasteTab}
+                  onRemoveTab={removeTab}
+                />
+              }
             />
-          </div>
-        </aside>
-      </main>
+          </section>
+          <StationBrowser
+            stations={stations}
+            usedStationIds={usedStationIds}
+            profileFirs={profileFirs}
+            nearbyStationIds={nearbyStationIds}
+            canAdd={!isClientPage}
+            onAddStations={(ids) => insertStationKeys(ids, null)}
+          />
+          <aside className="main-sidebar">
+            <div className="undo-redo-bar">
+              <button type="button" onClick={undo} disabled={!canUndo} className="undo-redo-btn" title="Undo (Ctrl+Z)" aria-label="Undo">
+                <IconUndo />
+              </button>
+              <button type="button" onClick={redo} disabled={!canRedo} className="undo-redo-btn" title="Redo (Ctrl+Shift+Z)" aria-label="Redo">
+                <IconRedo />
+              </button>
+            </div>
+            <DatasetPanel
+              dataset={stationDataset.dataset}
+              source={stationDataset.source}
+              localName={stationDataset.localName}
+              loading={stationDataset.loading}
+              error={stationDataset.error}
+              onReload={stationDataset.reload}
+              onLoadLocal={stationDataset.loadLocal}
+              datasetSource={stationDataset.datasetSource}
+              onDatasetSourceChange={stationDataset.setDatasetSource}
+              previousDataset={stationDataset.previousDataset}
+              onCompareWithPrevious={() => setShowDatasetMigration(true)}
+            />
+            <div className="key-editor-wrap">
+              {currentPage?.client_page != null ? (
+                <ClientPageEditor clientPage={currentPage.client_page} onUpdate={updateCurrentClientPage} />
+              ) : selectedKeyIndices.length > 1 ? (
+                <BulkKeyEditor
+                  keys={selectedKeyIndices.map((i) => currentKeys[i]).filter((k) => k != null)}
+                  stations={stations}
+                  onApply={bulkEditKeys}
+                  onClearKeys={clearKeys}
+                  onRemoveKeys={removeKey}
+                />
+              ) : (
+                <KeyEditor
+                  keyData={selectedKey}
+                  keyIndex={primaryKeyIndex}
+                  selectedCount={selectedKeyIndices.length}
+                  stationIdInputRef={stationIdInputRef}
+                  stations={stations}
+                  positions={positions}
+                  stationCandidates={selectedKeyCandidates}
+                  profileFirs={profileFirs}
+                  nearbyStationIds={nearbyStationIds}
+                  makeLabel={labelTemplates.autoFill ? makeLabel : undefined}
+                  onUpdateKey={(updater) => {
+                    if (primaryKeyIndex == null) return
+                    updateKeyAtPath(subpagePath, primaryKeyIndex, updater)
+                  }}
+                  onClearKeys={clearKeys}
+                  onRemoveKey={removeKey}
+                  onGoToSubpage={primaryKeyIndex != null ? () => goToSubpage(primaryKeyIndex) : undefined}
+                  onRemoveSubpage={
+                    selectedKey?.page != null
+                      ? () => {
+                          if (primaryKeyIndex == null) return
+                          updateKeyAtPath(subpagePath, primaryKeyIndex, (k) => ({ ...k, page: undefined }))
+                          setSelectedKeyIndices([])
+                        }
+                      : undefined
+                  }
+                  hasSubpage={selectedKey?.page != null}
+                />
+              )}
+            </div>
+          </aside>
+        </main>
+        <DragOverlay dropAnimation={null}>
+          {draggedStationIds != null && (
+            <div className="station-drag-overlay">
+              {draggedStationIds.length === 1 ? draggedStationIds[0] : `${draggedStationIds.length} stations`}
+            </div>
+          )}
+          {draggedKeys != null && (
+            <div className="key-drag-overlay">
+              {draggedKeys.length === 1
+                ? draggedKeys[0].label.filter((l) => l.trim() !== '').join(' ') || '(blank)'
+                : `${draggedKeys.length} keys`}
+            </div>
+          )}
+        </DragOverlay>
+      </DndContext>
+      <div className="tool-panels">
+        <ProblemsPanel
+          profile={profile}
+          problems={problems}
+          maxSubpageDepth={maxSubpageDepth}
+          onMaxSubpageDepthChange={setMaxSubpageDepth}
+          onSelectProblem={handleSelectProblem}
+          onReviewMismatches={stations != null ? () => setShowMismatchReview(true) : undefined}
+        />
+        <FindReplacePanel
+          profile={profile}
+          tabIndex={selectedTabIndex}
+          path={subpagePath}
+          onReplaceAll={applyFindReplace}
+          onSelectKey={goToLocation}
+        />
+        <LabelTemplatesPanel
+          templates={labelTemplates}
+          onChange={setLabelTemplates}
+          tabLabel={profile.tabs[selectedTabIndex]?.label[0] || `Tab ${selectedTabIndex + 1}`}
+          onRegenerateTab={regenerateTabLabels}
+        />
+        <DiffPanel baseline={baseline} profile={profile} onSelectKey={goToLocation} />
+        <CoveragePanel
+          profile={profile}
+          stationsById={stationsById}
+          enabled={coverageEnabled}
+          onEnabledChange={setCoverageEnabled}
+          onlinePositions={onlinePositions}
+          onOnlinePositionsChange={setOnlinePositions}
+          onSelectKey={goToLocation}
+        />
+        <StationUsagePanel
+          profile={profile}
+          stationsById={stationsById}
+          profileFirs={profileFirs}
+          onAddStation={!isClientPage ? (id) => insertStationKeys([id], null) : undefined}
+          onSelectKey={goToLocation}
+        />
+      </div>
     </div>
   )
 }
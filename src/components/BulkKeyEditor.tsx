@@ -0,0 +1,139 @@
+import { useState } from 'react'
+import type { DirectAccessKey } from '../types'
+import type { StationEntry } from '../lib/vacsStations'
+import type { BulkKeyEdit } from '../lib/bulkEdit'
+import { IconPlus, IconTrash, IconClear } from './Icons'
+
+interface BulkKeyEditorProps {
+  /** The selected keys, in page order. */
+  keys: DirectAccessKey[]
+  stations?: StationEntry[] | null
+  /** Apply the edit to every selected key as one undoable change. */
+  onApply: (edit: BulkKeyEdit) => void
+  onClearKeys: () => void
+  onRemoveKeys: () => void
+}
+
+/** Edit several selected keys at once: station ID, label lines, subpages. */
+export default function BulkKeyEditor({ keys, stations = null, onApply, onClearKeys, onRemoveKeys }: BulkKeyEditorProps) {
+  const [stationText, setStationText] = useState('')
+  const [labelLine, setLabelLine] = useState(0)
+  const [labelText, setLabelText] = useState('')
+
+  const withStation = keys.filter((k) => k.station_id?.trim()).length
+  const withSubpage = keys.filter((k) => k.page != null).length
+  const stationValue = stationText.trim()
+  const unknownStation =
+    stationValue !== '' && stations != null && stations.length > 0 && !stations.some((s) => s.id === stationValue)
+
+  return (
+    <section className="key-editor bulk-key-editor">
+      <h3>{keys.length} keys selected</h3>
+      <p className="bulk-key-editor-summary">
+        {withStation} with station ID, {withSubpage} with subpage
+      </p>
+      <div className="bulk-key-editor-group">
+        <label>
+          Station ID
+          <input
+            type="text"
+            value={stationText}
+            onChange={(e) => setStationText(e.target.value)}
+            placeholder="e.g. LOWW_TWR or LOWW_"
+          />
+        </label>
+        <div className="bulk-key-editor-actions">
+          <button
+            type="button"
+            onClick={() => onApply({ kind: 'setStationId', stationId: stationValue })}
+            disabled={stationValue === ''}
+            title="Use this station ID on every selected key"
+          >
+            Set
+          </button>
+          <button
+            type="button"
+            onClick={() => onApply({ kind: 'prefixStationId', prefix: stationValue })}
+            disabled={stationValue === '' || withStation === 0}
+            title="Put the text in front of each station ID"
+          >
+            Prefix
+          </button>
+          <button
+            type="button"
+            onClick={() => onApply({ kind: 'suffixStationId', suffix: stationValue })}
+            disabled={stationValue === '' || withStation === 0}
+            title="Append the text to each station ID"
+          >
+            Suffix
+          </button>
+        </div>
+        {unknownStation && (
+          <p className="station-id-unknown" role="status">
+            Station ID not found in VACS dataset
+          </p>
+        )}
+      </div>
+      <div className="bulk-key-editor-group">
+        <label>
+          Label line
+          <select value={labelLine} onChange={(e) => setLabelLine(Number(e.target.value))}>
+            <option value={0}>Line 1</option>
+            <option value={1}>Line 2</option>
+            <option value={2}>Line 3</option>
+          </select>
+        </label>
+        <div className="bulk-key-editor-actions">
+          <input
+            type="text"
+            value={labelText}
+            onChange={(e) => setLabelText(e.target.value)}
+            placeholder="Text (empty clears the line)"
+            aria-label="Label line text"
+          />
+          <button type="button" onClick={() => onApply({ kind: 'setLabelLine', line: labelLine, text: labelText })}>
+            Set
+          </button>
+        </div>
+        <button
+          type="button"
+          onClick={() => onApply({ kind: 'regenerateLabels' })}
+          disabled={withStation === 0}
+          title="Replace each label with one generated from its station ID"
+        >
+          Labels from station IDs
+        </button>
+      </div>
+      <div className="key-editor-subpage-actions">
+        <button
+          type="button"
+          onClick={() => onApply({ kind: 'attachSubpage', rows: 4 })}
+          disabled={withSubpage === keys.length}
+          className="key-editor-btn"
+          title="Add an empty subpage to every selected key without one"
+        >
+          <IconPlus />
+          <span>Add subpages</span>
+        </button>
+        <button
+          type="button"
+          onClick={() => onApply({ kind: 'removeSubpage' })}
+          disabled={withSubpage === 0}
+          className="key-editor-btn"
+          title="Remove the subpages of the selected keys"
+        >
+          <IconTrash />
+          <span>Remove subpages</span>
+        </button>
+      </div>
+      <button type="button" onClick={onClearKeys} className="key-editor-btn" title={`Clear ${keys.length} keys`}>
+        <IconClear />
+        <span>Clear {keys.length} keys</span>
+      </button>
+      <button type="button" onClick={onRemoveKeys} className="key-editor-btn" title={`Remove ${keys.length} keys`}>
+        <IconTrash />
+        <span>Remove {keys.length} keys</span>
+      </button>
+    </section>
+  )
+}
@@ -0,0 +1,70 @@
+import type { ClientPageConfig } from '../types'
+import { CLIENT_PAGE_FREQUENCIES, CLIENT_PAGE_GROUPINGS } from '../types'
+
+interface ClientPageEditorProps {
+  clientPage: ClientPageConfig
+  onUpdate: (updater: (c: ClientPageConfig) => ClientPageConfig) => void
+}
+
+type PatternField = 'include' | 'exclude' | 'priority'
+
+const PATTERN_FIELDS: { field: PatternField; label: string; placeholder: string }[] = [
+  { field: 'include', label: 'Include', placeholder: 'One pattern per line, e.g. LOVV_*' },
+  { field: 'exclude', label: 'Exclude', placeholder: 'e.g. *_ATIS' },
+  { field: 'priority', label: 'Priority', placeholder: 'Listed first, in this order' },
+]
+
+/** Select options: known values plus the current value when the file uses one this editor does not know. */
+function withCurrent(known: readonly string[], current: string | undefined): string[] {
+  return current != null && !known.includes(current) ? [...known, current] : [...known]
+}
+
+export default function ClientPageEditor({ clientPage, onUpdate }: ClientPageEditorProps) {
+  const setPatterns = (field: PatternField, text: string) => {
+    // Keep blank lines while typing; they are dropped on save.
+    onUpdate((c) => ({ ...c, [field]: text === '' ? [] : text.split('\n') }))
+  }
+
+  const setOption = (field: 'frequencies' | 'grouping', value: string) => {
+    onUpdate((c) => ({ ...c, [field]: value === '' ? undefined : value }))
+  }
+
+  return (
+    <section className="key-editor client-page-editor">
+      <h3>Client page</h3>
+      {PATTERN_FIELDS.map(({ field, label, placeholder }) => (
+        <label key={field}>
+          {label}
+          <textarea
+            value={(clientPage[field] ?? []).join('\n')}
+            onChange={(e) => setPatterns(field, e.target.value)}
+            placeholder={placeholder}
+            spellCheck={false}
+          />
+        </label>
+      ))}
+      <label>
+        Frequencies
+        <select value={clientPage.frequencies ?? ''} onChange={(e) => setOption('frequencies', e.target.value)}>
+          <option value="">(client default)</option>
+          {withCurrent(CLIENT_PAGE_FREQUENCIES, clientPage.frequencies).map((v) => (
+            <option key={v} value={v}>
+              {v}
+            </option>
+          ))}
+        </select>
+      </label>
+      <label>
+        Grouping
+        <select value={clientPage.grouping ?? ''} onChange={(e) => setOption('grouping', e.target.value)}>
+          <option value="">(client default)</option>
+          {withCurrent(CLIENT_PAGE_GROUPINGS, clientPage.grouping).map((v) => (
+            <option key={v} value={v}>
+              {v}
+            </option>
+          ))}
+        </select>
+      </label>
+    </section>
+  )
+}
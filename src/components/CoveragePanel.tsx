@@ -0,0 +1,128 @@
+import { useMemo, useState } from 'react'
+import type { TabbedProfile } from '../types'
+import type { StationEntry } from '../lib/vacsStations'
+import { getProfilePositions, summarizeCoverage } from '../lib/coverage'
+import { describeLocation } from '../lib/profileWalk'
+
+interface CoveragePanelProps {
+  profile: TabbedProfile
+  stationsById: Map<string, StationEntry>
+  enabled: boolean
+  onEnabledChange: (enabled: boolean) => void
+  onlinePositions: string[]
+  onOnlinePositionsChange: (positions: string[]) => void
+  onSelectKey: (tabIndex: number, path: number[], keyIndex: number) => void
+}
+
+/** Coverage simulator: tick online positions, see per tab which keys would be answered and which are uncovered. */
+export default function CoveragePanel({
+  profile,
+  stationsById,
+  enabled,
+  onEnabledChange,
+  onlinePositions,
+  onOnlinePositionsChange,
+  onSelectKey,
+}: CoveragePanelProps) {
+  const [filter, setFilter] = useState('')
+  const positions = useMemo(() => getProfilePositions(profile, stationsById), [profile, stationsById])
+  const online = useMemo(() => new Set(onlinePositions), [onlinePositions])
+  const summary = useMemo(
+    () => (enabled ? summarizeCoverage(profile, stationsById, online) : null),
+    [enabled, profile, stationsById, online]
+  )
+
+  const query = filter.trim().toUpperCase()
+  const visiblePositions = query === '' ? positions : positions.filter((id) => id.toUpperCase().includes(query))
+
+  const togglePosition = (id: string) => {
+    onOnlinePositionsChange(online.has(id) ? onlinePositions.filter((p) => p !== id) : [...onlinePositions, id])
+  }
+
+  return (
+    <section className="tool-panel coverage-panel">
+      <div className="tool-panel-header">
+        <h3>Coverage</h3>
+        <label className="tool-panel-option">
+          <input type="checkbox" checked={enabled} onChange={(e) => onEnabledChange(e.target.checked)} />
+          Simulate on grid
+        </label>
+      </div>
+      {positions.length === 0 ? (
+        <p className="tool-panel-empty">No positions: load the station dataset and add keys with station IDs</p>
+      ) : (
+        <>
+          <div className="coverage-positions-toolbar">
+            <input
+              type="search"
+              value={filter}
+              onChange={(e) => setFilter(e.target.value)}
+              placeholder="Filter positions"
+              aria-label="Filter positions"
+            />
+            <button
+              type="button"
+              onClick={() => onOnlinePositionsChange(Array.from(new Set([...onlinePositions, ...visiblePositions])))}
+            >
+              All online
+            </button>
+            <button
+              type="button"
+              onClick={() => onOnlinePositionsChange(onlinePositions.filter((id) => !visiblePositions.includes(id)))}
+            >
+              All offline
+            </button>
+          </div>
+          <ul className="coverage-positions">
+            {visiblePositions.map((id) => (
+              <li key={id}>
+                <label>
+                  <input type="checkbox" checked={online.has(id)} onChange={() => togglePosition(id)} />
+                  {id}
+                </label>
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+      {summary != null && (
+        <>
+          <table className="coverage-summary">
+            <thead>
+              <tr>
+                <th>Tab</th>
+                <th>Covered</th>
+                <th>Uncovered</th>
+                <th>Unknown</th>
+              </tr>
+            </thead>
+            <tbody>
+              {profile.tabs.map((tab, i) => (
+                <tr key={i}>
+                  <td>{tab.label[0]?.trim() || `Tab ${i + 1}`}</td>
+                  <td>{summary.tabs[i].covered}</td>
+                  <td className={summary.tabs[i].uncovered > 0 ? 'coverage-summary-uncovered' : undefined}>
+                    {summary.tabs[i].uncovered}
+                  </td>
+                  <td>{summary.tabs[i].unknown}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {summary.uncovered.length > 0 && (
+            <ul className="problems-list">
+              {summary.uncovered.map((key, i) => (
+                <li key={i}>
+                  <button type="button" className="problems-item" onClick={() => onSelectKey(key.tabIndex, key.path, key.keyIndex)}>
+                    <span className="problems-item-location">{describeLocation(profile, key.tabIndex, key.path, key.keyIndex)}</span>
+                    <span className="problems-item-message">{key.stationId} is not covered</span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </>
+      )}
+    </section>
+  )
+}
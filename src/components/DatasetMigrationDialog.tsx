@@ -0,0 +1,181 @@
+import { useState } from 'react'
+import type { TabbedProfile } from '../types'
+import type { StationDataset } from '../lib/vacsStations'
+import { compareDatasets } from '../lib/datasetCompare'
+import { formatDatasetSource } from '../lib/datasetSource'
+import { forEachKey } from '../lib/profileWalk'
+import { rankStationCandidates } from '../lib/stationCandidates'
+
+interface DatasetMigrationDialogProps {
+  profile: TabbedProfile
+  previous: StationDataset
+  current: StationDataset
+  profileFirs: ReadonlySet<string>
+  /** Old station ID → new station ID, applied to every key as one undoable change. */
+  onApply: (renames: Map<string, string>) => void
+  onClose: () => void
+}
+
+interface AffectedStation {
+  stationId: string
+  keyCount: number
+  /** Detected rename target, if any. */
+  renamedTo: string | null
+  /** Replacement options, rename target first. */
+  options: string[]
+}
+
+function describeSnapshot(dataset: StationDataset): string {
+  const origin = dataset.source != null ? formatDatasetSource(dataset.source) : 'local files'
+  const tree = dataset.treeSha !== '' ? ` (tree ${dataset.treeSha.slice(0, 7)})` : ''
+  return `${origin}${tree}, ${new Date(dataset.fetchedAt).toLocaleString()}`
+}
+
+/**
+ * Stations removed or renamed between two dataset snapshots; for the ones the open profile uses,
+ * pick a replacement and rewrite every affected key at once.
+ */
+export default function DatasetMigrationDialog({
+  profile,
+  previous,
+  current,
+  profileFirs,
+  onApply,
+  onClose,
+}: DatasetMigrationDialogProps) {
+  // Computed once when the dialog opens; the profile cannot change while it is open
+  const [{ comparison, affected }] = useState(() => {
+    const comparison = compareDatasets(previous.stations, current.stations)
+    const renameTargets = new Map(comparison.renamed.map((r) => [r.from.id, r.to.id]))
+    const goneIds = new Set([...comparison.removed.map((s) => s.id), ...renameTargets.keys()])
+
+    const keyCounts = new Map<string, number>()
+    forEachKey(profile, (key) => {
+      const stationId = key.station_id?.trim() ?? ''
+      if (goneIds.has(stationId)) keyCounts.set(stationId, (keyCounts.get(stationId) ?? 0) + 1)
+    })
+
+    const affected: AffectedStation[] = Array.from(keyCounts, ([stationId, keyCount]) => {
+      const renamedTo = renameTargets.get(stationId) ?? null
+      const candidates = rankStationCandidates(stationId, current.stations, profileFirs).map((c) => c.station.id)
+      const options = renamedTo != null ? [renamedTo, ...candidates.filter((id) => id !== renamedTo)] : candidates
+      return { stationId, keyCount, renamedTo, options }
+    }).sort((a, b) => a.stationId.localeCompare(b.stationId))
+
+    return { comparison, affected }
+  })
+
+  // Chosen replacement per affected station; '' = keep
+  const [choices, setChoices] = useState<string[]>(() => affected.map((a) => a.renamedTo ?? ''))
+  const acceptedCount = choices.filter((c) => c !== '').length
+
+  const apply = () => {
+    const renames = new Map<string, string>()
+    affected.forEach((a, i) => {
+      if (choices[i] !== '') renames.set(a.stationId, choices[i])
+    })
+    onApply(renames)
+  }
+
+  const unchanged =
+    comparison.renamed.length === 0 && comparison.removed.length === 0 && comparison.added.length === 0
+
+  return (
+    <div className="modal-overlay" role="dialog" aria-modal="true" aria-labelledby="dataset-migration-title">
+      <div className="modal modal-wide">
+        <h2 id="dataset-migration-title">Dataset changes</h2>
+        <p>
+          From {describeSnapshot(previous)}
+          <br />
+          to {describeSnapshot(current)}
+          <br />
+          {unchanged
+            ? 'No stations were added, removed or renamed.'
+            : `${comparison.renamed.length} renamed, ${comparison.removed.length} removed, ${comparison.added.length} added.`}
+        </p>
+        {affected.length > 0 ? (
+          <>
+            <h3 className="dataset-migration-heading">Used in this profile</h3>
+            <ul className="mismatch-review-list">
+              {affected.map((a, i) => (
+                <li key={a.stationId} className="mismatch-review-row">
+                  <span className="mismatch-review-location">
+                    {a.renamedTo != null ? 'Renamed' : 'Removed'} · {a.keyCount} key{a.keyCount === 1 ? '' : 's'}
+                  </span>
+                  <span className="mismatch-review-current">{a.stationId}</span>
+                  <span aria-hidden>→</span>
+                  <select
+                    value={choices[i]}
+                    onChange={(e) => setChoices((c) => c.map((v, j) => (j === i ? e.target.value : v)))}
+                    aria-label={`Replacement for ${a.stationId}`}
+                  >
+                    <option value="">Keep {a.stationId}</option>
+                    {a.options.map((id) => (
+                      <option key={id} value={id}>
+                        {id}
+                        {id === a.renamedTo ? ' (renamed)' : ''}
+                      </option>
+                    ))}
+                  </select>
+                </li>
+              ))}
+            </ul>
+          </>
+        ) : (
+          !unchanged && <p>None of the removed or renamed stations are used in this profile.</p>
+        )}
+        {!unchanged && (
+          <details className="dataset-migration-details">
+            <summary>All changes</summary>
+            {comparison.renamed.length > 0 && (
+              <>
+                <h4>Renamed</h4>
+                <ul>
+                  {comparison.renamed.map((r) => (
+                    <li key={r.from.id} title={r.reasons.join(', ')}>
+                      {r.from.id} → {r.to.id}
+                    </li>
+                  ))}
+                </ul>
+              </>
+            )}
+            {comparison.removed.length > 0 && (
+              <>
+                <h4>Removed</h4>
+                <ul>
+                  {comparison.removed.map((s) => (
+                    <li key={s.id}>
+                      {s.id} ({s.fir})
+                    </li>
+                  ))}
+                </ul>
+              </>
+            )}
+            {comparison.added.length > 0 && (
+              <>
+                <h4>Added</h4>
+                <ul>
+                  {comparison.added.map((s) => (
+                    <li key={s.id}>
+                      {s.id} ({s.fir})
+                    </li>
+                  ))}
+                </ul>
+              </>
+            )}
+          </details>
+        )}
+        <div className="modal-actions">
+          {affected.length > 0 && (
+            <button type="button" onClick={apply} disabled={acceptedCount === 0}>
+              Rewrite {acceptedCount} station ID{acceptedCount === 1 ? '' : 's'}
+            </button>
+          )}
+          <button type="button" onClick={onClose}>
+            {affected.length > 0 ? 'Cancel' : 'Close'}
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,257 @@
+import { useEffect, useRef, useState } from 'react'
+import type { StationDataset } from '../lib/vacsStations'
+import type { LocalDatasetInput, StationDatasetSource } from '../hooks/useStationDataset'
+import {
+  checkDatasetSource,
+  formatDatasetSource,
+  isDefaultDatasetSource,
+  DEFAULT_DATASET_SOURCE,
+  type DatasetSource,
+} from '../lib/datasetSource'
+
+interface DatasetPanelProps {
+  dataset: StationDataset | null
+  source: StationDatasetSource | null
+  /** Folder or zip name when source is 'local'. */
+  localName: string | null
+  loading: boolean
+  error: string | null
+  onReload: () => void
+  onLoadLocal: (input: LocalDatasetInput) => void
+  /** GitHub repository and ref used for (re)loading. */
+  datasetSource: DatasetSource
+  onDatasetSourceChange: (source: DatasetSource) => void
+  /** Snapshot the current dataset replaced; enables comparing the two. */
+  previousDataset?: StationDataset | null
+  onCompareWithPrevious?: () => void
+}
+
+const AGE_REFRESH_MS = 60_000
+
+function formatAge(ms: number): string {
+  const minutes = Math.floor(ms / 60_000)
+  if (minutes < 1) return 'just now'
+  if (minutes < 60) return `${minutes} min ago`
+  const hours = Math.floor(minutes / 60)
+  if (hours < 48) return `${hours} h ago`
+  return `${Math.floor(hours / 24)} d ago`
+}
+
+function describeSource(source: StationDatasetSource | null, localName: string | null, dataset: StationDataset): string {
+  if (source === 'local') return `Local: ${localName ?? 'files'}`
+  const repo = dataset.source != null ? ` ${formatDatasetSource(dataset.source)}` : ''
+  return source === 'cache' ? `Cached copy of${repo}` : `GitHub${repo}`
+}
+
+function DatasetSourceForm({
+  current,
+  onApply,
+  onCancel,
+}: {
+  current: DatasetSource
+  onApply: (source: DatasetSource) => void
+  onCancel: () => void
+}) {
+  const [draft, setDraft] = useState(current)
+  const checked = checkDatasetSource(draft)
+
+  const field = (name: keyof DatasetSource, label: string, placeholder: string) => (
+    <label>
+      {label}
+      <input
+        type="text"
+        value={draft[name]}
+        onChange={(e) => setDraft((d) => ({ ...d, [name]: e.target.value }))}
+        placeholder={placeholder}
+        spellCheck={false}
+      />
+    </label>
+  )
+
+  return (
+    <form
+      className="dataset-source-form"
+      onSubmit={(e) => {
+        e.preventDefault()
+        if (typeof checked !== 'string') onApply(checked)
+      }}
+    >
+      {field('owner', 'Owner', DEFAULT_DATASET_SOURCE.owner)}
+      {field('repo', 'Repository', DEFAULT_DATASET_SOURCE.repo)}
+      {field('ref', 'Branch, tag or commit', DEFAULT_DATASET_SOURCE.ref)}
+      {typeof checked === 'string' && <p className="station-id-load-error">{checked}</p>}
+      <div className="dataset-source-form-actions">
+        <button type="submit" disabled={typeof checked === 'string'}>
+          Use source
+        </button>
+        <button type="button" onClick={() => setDraft(DEFAULT_DATASET_SOURCE)} disabled={isDefaultDatasetSource(draft)}>
+          Default
+        </button>
+        <button type="button" onClick={onCancel}>
+          Cancel
+        </button>
+      </div>
+    </form>
+  )
+}
+
+/**
+ * Station dataset status: size, source, age, station file problems; reload from GitHub,
+ * pick the GitHub repository/ref (fork, PR branch, commit) or load a local vacs-data checkout.
+ */
+export default function DatasetPanel({
+  dataset,
+  source,
+  localName,
+  loading,
+  error,
+  onReload,
+  onLoadLocal,
+  datasetSource,
+  onDatasetSourceChange,
+  previousDataset = null,
+  onCompareWithPrevious,
+}: DatasetPanelProps) {
+  const [now, setNow] = useState(() => Date.now())
+  const [editingSource, setEditingSource] = useState(false)
+  const folderInputRef = useRef<HTMLInputElement>(null)
+  const zipInputRef = useRef<HTMLInputElement>(null)
+
+  useEffect(() => {
+    const id = setInterval(() => setNow(Date.now()), AGE_REFRESH_MS)
+    return () => clearInterval(id)
+  }, [])
+
+  // Not in React's input props; set on the element so the picker selects a directory
+  useEffect(() => {
+    folderInputRef.current?.setAttribute('webkitdirectory', '')
+  }, [])
+
+  const handleFolderChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = e.target.files
+    if (files == null || files.length === 0) return
+    const name = files[0].webkitRelativePath.split('/')[0] || 'folder'
+    onLoadLocal({ kind: 'directory', name, files })
+    e.target.value = ''
+  }
+
+  const handleZipChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (file) onLoadLocal({ kind: 'zip', file })
+  }
+
+  return (
+    <section className="dataset-panel">
+      <div className="dataset-panel-row">
+        <span className="dataset-panel-status">
+          {dataset == null
+            ? loading
+              ? 'Loading stations…'
+              : 'No station dataset'
+            : `${dataset.stations.length} stations${dataset.positions.length > 0 ? ` · ${dataset.positions.length} positions` : ''}`}
+        </span>
+        <button
+          type="button"
+          className="station-id-load-btn"
+          onClick={onReload}
+          disabled={loading}
+          title="Reload station list from GitHub dataset"
+          aria-label="Reload GitHub Dataset"
+        >
+          {loading ? 'Loading…' : 'Reload GitHub Dataset'}
+        </button>
+      </div>
+      <div className="dataset-panel-row">
+        <span className="dataset-panel-meta" title="GitHub repository and ref used when reloading">
+          Source: {formatDatasetSource(datasetSource)}
+        </span>
+        {!editingSource && (
+          <button type="button" className="station-id-load-btn" onClick={() => setEditingSource(true)}>
+            Change…
+          </button>
+        )}
+      </div>
+      {editingSource && (
+        <DatasetSourceForm
+          current={datasetSource}
+          onApply={(next) => {
+            setEditingSource(false)
+            onDatasetSourceChange(next)
+          }}
+          onCancel={() => setEditingSource(false)}
+        />
+      )}
+      <div className="dataset-panel-local">
+        <button
+          type="button"
+          className="station-id-load-btn"
+          onClick={() => folderInputRef.current?.click()}
+          disabled={loading}
+          title="Load stations from a local vacs-data checkout (the repo folder or its dataset folder)"
+        >
+          Load folder…
+        </button>
+        <button
+          type="button"
+          className="station-id-load-btn"
+          onClick={() => zipInputRef.current?.click()}
+          disabled={loading}
+          title="Load stations from a zip of vacs-data or its dataset folder"
+        >
+          Load zip…
+        </button>
+        <input ref={folderInputRef} type="file" multiple style={{ display: 'none' }} onChange={handleFolderChange} aria-hidden />
+        <input
+          ref={zipInputRef}
+          type="file"
+          accept=".zip,application/zip"
+          style={{ display: 'none' }}
+          onChange={handleZipChange}
+          aria-hidden
+        />
+      </div>
+      {dataset != null && (
+        <p
+          className="dataset-panel-meta"
+          title={source === 'local' ? undefined : `Tree ${dataset.treeSha}\n${new Date(dataset.fetchedAt).toLocaleString()}`}
+        >
+          {describeSource(source, localName, dataset)} · {formatAge(Math.max(0, now - dataset.fetchedAt))}
+          {source === 'cache' && loading && ' · checking for updates…'}
+        </p>
+      )}
+      {dataset != null && previousDataset != null && onCompareWithPrevious && (
+        <div className="dataset-panel-row">
+          <span className="dataset-panel-meta">
+            Replaced a snapshot from {formatAge(Math.max(0, now - previousDataset.fetchedAt))}
+          </span>
+          <button type="button" className="station-id-load-btn" onClick={onCompareWithPrevious}>
+            Compare…
+          </button>
+        </div>
+      )}
+      {dataset != null && dataset.errors.length > 0 && (
+        <details className="dataset-panel-errors">
+          <summary>
+            {dataset.errors.length} problem{dataset.errors.length === 1 ? '' : 's'} in station files
+          </summary>
+          <ul>
+            {dataset.errors.map((e, i) => (
+              <li key={i}>
+                <span className="dataset-panel-error-file">
+                  {e.fir}/{e.fileName}
+                </span>
+                : {e.message}
+              </li>
+            ))}
+          </ul>
+        </details>
+      )}
+      {error != null && (
+        <p className="station-id-load-error" role="alert">
+          {dataset != null ? `Could not load stations (using ${source === 'cache' ? 'cached copy' : 'last loaded data'}): ${error}` : error}
+        </p>
+      )}
+    </section>
+  )
+}
@@ -0,0 +1,163 @@
+import { useMemo, useState } from 'react'
+import type { TabbedProfile } from '../types'
+import { diffProfiles, countProfileChanges, type KeyDiff, type PageDiff } from '../lib/profileDiff'
+import { diffLines, toHunks, MAX_DIFF_EDITS } from '../lib/textDiff'
+import { serializeProfile } from '../lib/serializeProfile'
+import { useDebouncedValue } from '../hooks/useDebouncedValue'
+
+interface DiffPanelProps {
+  baseline: TabbedProfile
+  profile: TabbedProfile
+  onSelectKey: (tabIndex: number, path: number[], keyIndex: number) => void
+}
+
+/** Wait for edits to pause before re-diffing the serialized JSON. */
+const TEXT_DIFF_DELAY_MS = 300
+
+const KIND_LABEL = { added: 'Added', removed: 'Removed', moved: 'Moved', modified: 'Changed' } as const
+
+function keyTitle(diff: KeyDiff): string {
+  const text = diff.key.label.map((l) => l.trim()).filter((l) => l !== '').join(' ')
+  const station = diff.key.station_id ? ` (${diff.key.station_id})` : ''
+  const index = diff.kind === 'removed' ? `was #${(diff.beforeIndex ?? 0) + 1}` : `#${(diff.afterIndex ?? 0) + 1}`
+  const moved = diff.kind === 'moved' ? ` from #${(diff.beforeIndex ?? 0) + 1}` : ''
+  return `${text || '(blank)'}${station} ${index}${moved}`
+}
+
+function PageDiffList({
+  diff,
+  tabIndex,
+  path,
+  onSelectKey,
+}: {
+  diff: PageDiff
+  tabIndex: number
+  path: number[]
+  onSelectKey: DiffPanelProps['onSelectKey']
+}) {
+  return (
+    <ul className="diff-tree">
+      {diff.details.map((d, i) => (
+        <li key={`d${i}`} className="diff-detail">
+          {d}
+        </li>
+      ))}
+      {diff.keys.map((k, i) => (
+        <li key={i} className={`diff-item diff-${k.kind}`}>
+          {k.afterIndex != null ? (
+            <button type="button" className="diff-item-title" onClick={() => onSelectKey(tabIndex, path, k.afterIndex!)}>
+              {KIND_LABEL[k.kind]}: {keyTitle(k)}
+            </button>
+          ) : (
+            <span className="diff-item-title">
+              {KIND_LABEL[k.kind]}: {keyTitle(k)}
+            </span>
+          )}
+          {k.details.length > 0 && (
+            <ul className="diff-tree">
+              {k.details.map((d, j) => (
+                <li key={j} className="diff-detail">
+                  {d}
+                </li>
+              ))}
+            </ul>
+          )}
+          {k.subpage && k.afterIndex != null && (
+            <PageDiffList diff={k.subpage} tabIndex={tabIndex} path={[...path, k.afterIndex]} onSelectKey={onSelectKey} />
+          )}
+        </li>
+      ))}
+    </ul>
+  )
+}
+
+/** Changes since the profile was loaded: semantic tree of tabs/keys, or a line diff of the saved JSON. */
+export default function DiffPanel({ baseline, profile, onSelectKey }: DiffPanelProps) {
+  const [mode, setMode] = useState<'semantic' | 'text'>('semantic')
+  const diff = useMemo(() => diffProfiles(baseline, profile), [baseline, profile])
+  const changeCount = countProfileChanges(diff)
+
+  const textProfile = useDebouncedValue(profile, TEXT_DIFF_DELAY_MS)
+  // null: too many changed lines to diff
+  const hunks = useMemo(() => {
+    if (mode !== 'text') return []
+    const lines = diffLines(serializeProfile(baseline), serializeProfile(textProfile))
+    return lines != null ? toHunks(lines) : null
+  }, [mode, baseline, textProfile])
+
+  return (
+    <section className="tool-panel diff-panel">
+      <div className="tool-panel-header">
+        <h3>Changes since load ({changeCount})</h3>
+        <div className="diff-mode">
+          <button type="button" className={mode === 'semantic' ? 'active' : ''} onClick={() => setMode('semantic')}>
+            Semantic
+          </button>
+          <button type="button" className={mode === 'text' ? 'active' : ''} onClick={() => setMode('text')}>
+            JSON
+          </button>
+        </div>
+      </div>
+      {changeCount === 0 && <p className="tool-panel-empty">No changes</p>}
+      {mode === 'semantic' && changeCount > 0 && (
+        <div className="diff-scroll">
+          {diff.details.length > 0 && (
+            <ul className="diff-tree">
+              {diff.details.map((d, i) => (
+                <li key={i} className="diff-detail">
+                  Profile {d}
+                </li>
+              ))}
+            </ul>
+          )}
+          <ul className="diff-tree">
+            {diff.tabs.map((t, i) => (
+              <li key={i} className={`diff-item diff-${t.kind}`}>
+                <span className="diff-item-title">
+                  {KIND_LABEL[t.kind]} tab: {t.label.join(' ').trim() || '(unnamed)'}
+                  {t.kind === 'moved' && ` (#${(t.beforeIndex ?? 0) + 1} → #${(t.afterIndex ?? 0) + 1})`}
+                </span>
+                {t.details.length > 0 && (
+                  <ul className="diff-tree">
+                    {t.details.map((d, j) => (
+                      <li key={j} className="diff-detail">
+                        {d}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+                {t.page && t.afterIndex != null && (
+                  <PageDiffList diff={t.page} tabIndex={t.afterIndex} path={[]} onSelectKey={onSelectKey} />
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+      {mode === 'text' && changeCount > 0 && hunks == null && (
+        <p className="tool-panel-empty">More than {MAX_DIFF_EDITS} changed lines; use the semantic view</p>
+      )}
+      {mode === 'text' && changeCount > 0 && hunks != null && (
+        <div className="diff-scroll">
+          {hunks.map((hunk, i) => {
+            const beforeLine = hunk.lines.find((l) => l.beforeLine != null)?.beforeLine ?? 0
+            const afterLine = hunk.lines.find((l) => l.afterLine != null)?.afterLine ?? 0
+            return (
+              <pre key={i} className="diff-hunk">
+                <span className="diff-hunk-header">
+                  @@ -{beforeLine} +{afterLine} @@
+                </span>
+                {hunk.lines.map((line, j) => (
+                  <span key={j} className={`diff-line diff-line-${line.type}`}>
+                    {line.type === 'added' ? '+' : line.type === 'removed' ? '-' : ' '}
+                    {line.text}
+                  </span>
+                ))}
+              </pre>
+            )
+          })}
+        </div>
+      )}
+    </section>
+  )
+}
@@ -0,0 +1,118 @@
+import { useMemo, useState } from 'react'
+import type { TabbedProfile } from '../types'
+import { findMatches, type FindOptions, type FindScope } from '../lib/findReplace'
+import { describeLocation } from '../lib/profileWalk'
+
+interface FindReplacePanelProps {
+  profile: TabbedProfile
+  /** Current tab and page, for the page and tab scopes. */
+  tabIndex: number
+  path: number[]
+  /** Apply every previewed replacement as one undoable change. */
+  onReplaceAll: (options: FindOptions) => void
+  onSelectKey: (tabIndex: number, path: number[], keyIndex: number) => void
+}
+
+const PREVIEW_MAX = 200
+
+/** Find/replace over label lines and station IDs with a preview of every change. */
+export default function FindReplacePanel({ profile, tabIndex, path, onReplaceAll, onSelectKey }: FindReplacePanelProps) {
+  const [query, setQuery] = useState('')
+  const [replacement, setReplacement] = useState('')
+  const [regex, setRegex] = useState(false)
+  const [matchCase, setMatchCase] = useState(false)
+  const [labels, setLabels] = useState(true)
+  const [stationIds, setStationIds] = useState(true)
+  const [scope, setScope] = useState<FindScope>('profile')
+
+  const options = useMemo<FindOptions>(
+    () => ({ query, replacement, regex, matchCase, labels, stationIds, scope, tabIndex, path }),
+    [query, replacement, regex, matchCase, labels, stationIds, scope, tabIndex, path]
+  )
+  const result = useMemo(() => findMatches(profile, options), [profile, options])
+  const error = typeof result === 'string' ? result : null
+  const matches = typeof result === 'string' ? [] : result
+
+  return (
+    <section className="tool-panel find-replace-panel">
+      <div className="tool-panel-header">
+        <h3>Find and replace</h3>
+        <select value={scope} onChange={(e) => setScope(e.target.value as FindScope)} aria-label="Scope">
+          <option value="page">Current page</option>
+          <option value="tab">Current tab</option>
+          <option value="profile">Whole profile</option>
+        </select>
+      </div>
+      <div className="find-replace-fields">
+        <input
+          type="search"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder={regex ? 'Regular expression' : 'Find'}
+          aria-label="Find"
+        />
+        <input
+          type="text"
+          value={replacement}
+          onChange={(e) => setReplacement(e.target.value)}
+          placeholder={regex ? 'Replace ($1 for groups)' : 'Replace'}
+          aria-label="Replace"
+        />
+      </div>
+      <div className="find-replace-options">
+        <label className="tool-panel-option">
+          <input type="checkbox" checked={labels} onChange={(e) => setLabels(e.target.checked)} />
+          Labels
+        </label>
+        <label className="tool-panel-option">
+          <input type="checkbox" checked={stationIds} onChange={(e) => setStationIds(e.target.checked)} />
+          Station IDs
+        </label>
+        <label className="tool-panel-option">
+          <input type="checkbox" checked={regex} onChange={(e) => setRegex(e.target.checked)} />
+          Regex
+        </label>
+        <label className="tool-panel-option">
+          <input type="checkbox" checked={matchCase} onChange={(e) => setMatchCase(e.target.checked)} />
+          Match case
+        </label>
+      </div>
+      {error != null ? (
+        <p className="find-replace-error">{error}</p>
+      ) : query === '' ? (
+        <p className="tool-panel-empty">Enter text to find</p>
+      ) : matches.length === 0 ? (
+        <p className="tool-panel-empty">No matches</p>
+      ) : (
+        <>
+          <div className="tool-panel-header">
+            <span className="find-replace-count">
+              {matches.length} change{matches.length === 1 ? '' : 's'}
+            </span>
+            <button type="button" onClick={() => onReplaceAll(options)}>
+              Replace all
+            </button>
+          </div>
+          <ul className="problems-list">
+            {matches.slice(0, PREVIEW_MAX).map((m, i) => (
+              <li key={i}>
+                <button type="button" className="problems-item" onClick={() => onSelectKey(m.tabIndex, m.path, m.keyIndex)}>
+                  <span className="problems-item-location">
+                    {describeLocation(profile, m.tabIndex, m.path, m.keyIndex)} ·{' '}
+                    {m.field === 'label' ? `label line ${(m.line ?? 0) + 1}` : 'station ID'}
+                  </span>
+                  <span className="find-replace-change">
+                    <del>{m.before}</del> → <ins>{m.after === '' ? '(empty)' : m.after}</ins>
+                  </span>
+                </button>
+              </li>
+            ))}
+          </ul>
+          {matches.length > PREVIEW_MAX && (
+            <p className="tool-panel-empty">and {matches.length - PREVIEW_MAX} more</p>
+          )}
+        </>
+      )}
+    </section>
+  )
+}
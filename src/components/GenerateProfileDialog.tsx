@@ -0,0 +1,64 @@
+import { useMemo, useState } from 'react'
+import type { TabbedProfile } from '../types'
+import type { StationEntry } from '../lib/vacsStations'
+import type { LabelGenerator } from '../lib/stationLabel'
+import { generateProfile, getDatasetFirs, summarizeGeneratedProfile } from '../lib/generateProfile'
+
+interface GenerateProfileDialogProps {
+  stations: StationEntry[]
+  /** Preselected FIR, e.g. the open profile's. */
+  defaultFir?: string
+  makeLabel?: LabelGenerator
+  /** Replaces the open profile (like loading a file). */
+  onGenerate: (profile: TabbedProfile) => void
+  onClose: () => void
+}
+
+/** Pick a FIR and build a starter profile from its dataset stations. */
+export default function GenerateProfileDialog({ stations, defaultFir, makeLabel, onGenerate, onClose }: GenerateProfileDialogProps) {
+  const firs = useMemo(() => getDatasetFirs(stations), [stations])
+  const [fir, setFir] = useState(() => (defaultFir != null && firs.includes(defaultFir) ? defaultFir : firs[0] ?? ''))
+  const [rows, setRows] = useState(4)
+  const summary = useMemo(() => summarizeGeneratedProfile(fir, stations), [fir, stations])
+
+  return (
+    <div className="modal-overlay" role="dialog" aria-modal="true" aria-labelledby="generate-profile-title">
+      <div className="modal">
+        <h2 id="generate-profile-title">Generate profile from dataset</h2>
+        <div className="generate-profile-fields">
+          <label>
+            FIR
+            <select value={fir} onChange={(e) => setFir(e.target.value)}>
+              {firs.map((f) => (
+                <option key={f} value={f}>
+                  {f}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label>
+            Rows
+            <input type="number" min={1} value={rows} onChange={(e) => setRows(parseInt(e.target.value, 10) || 1)} />
+          </label>
+        </div>
+        <p>
+          CTR tab: {summary.centers} station{summary.centers === 1 ? '' : 's'}
+          <br />
+          APP tab: {summary.approaches} station{summary.approaches === 1 ? '' : 's'}
+          <br />
+          TWR tab: {summary.airports} airport{summary.airports === 1 ? '' : 's'} with {summary.airportStations} station
+          {summary.airportStations === 1 ? '' : 's'}
+        </p>
+        <p>This replaces the open profile and clears its undo history; save it first if needed.</p>
+        <div className="modal-actions">
+          <button type="button" onClick={() => onGenerate(generateProfile(fir, stations, { rows, makeLabel }))} disabled={fir === ''}>
+            Generate
+          </button>
+          <button type="button" onClick={onClose}>
+            Cancel
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
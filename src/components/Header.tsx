@@ -6,6 +6,8 @@ interface HeaderProps {
   onNew: () => void
   onLoad: () => void
   onSaveAs: () => void
+  /** Open the generator; omitted while no station dataset is loaded. */
+  onGenerate?: () => void
   fileInputRef: RefObject<HTMLInputElement | null>
   onFileChange: (e: React.ChangeEvent<HTMLInputElement>) => void
 }
@@ -16,6 +18,7 @@ export default function Header({
   onNew,
   onLoad,
   onSaveAs,
+  onGenerate,
   fileInputRef,
   onFileChange,
 }: HeaderProps) {
@@ -33,6 +36,9 @@ export default function Header({
       <button type="button" onClick={onNew}>
         New profile
       </button>
+      <button type="button" onClick={onGenerate} disabled={!onGenerate} title="Build a starter profile for a FIR from the station dataset">
+        Generate…
+      </button>
       <button type="button" onClick={onLoad}>
         Load JSON
       </button>
@@ -68,6 +68,31 @@ export function IconPaste() {
   )
 }
 
+export function IconCopyToClipboard() {
+  return (
+    <svg {...iconProps} viewBox="0 0 16 16" strokeLinecap="round" strokeLinejoin="round" aria-hidden>
+      <rect x="2" y="4" width="8" height="10" rx="1" />
+      <path d="M4 4V3a1 1 0 011-1h2a1 1 0 011 1v1M8 9h7M13 7l2 2-2 2" />
+    </svg>
+  )
+}
+
+export function IconGroup() {
+  return (
+    <svg {...iconProps} viewBox="0 0 16 16" strokeLinecap="round" strokeLinejoin="round" aria-hidden>
+      <path d="M2 4a1 1 0 011-1h3l1.5 1.5H13a1 1 0 011 1V12a1 1 0 01-1 1H3a1 1 0 01-1-1V4zM6 9h4M8 7v4" />
+    </svg>
+  )
+}
+
+export function IconFlatten() {
+  return (
+    <svg {...iconProps} viewBox="0 0 16 16" strokeLinecap="round" strokeLinejoin="round" aria-hidden>
+      <path d="M2 4a1 1 0 011-1h3l1.5 1.5H13a1 1 0 011 1V12a1 1 0 01-1 1H3a1 1 0 01-1-1V4zM6 9h4" />
+    </svg>
+  )
+}
+
 export function IconTrash() {
   return (
     <svg {...iconProps} viewBox="0 0 16 16" strokeLinecap="round" strokeLinejoin="round" aria-hidden>
@@ -0,0 +1,39 @@
+import type { NormalizationChange } from '../lib/validation'
+
+interface ImportReportProps {
+  fileName: string
+  changes: NormalizationChange[]
+  onDismiss: () => void
+}
+
+function formatValue(value: unknown): string {
+  return value === undefined ? '(none)' : JSON.stringify(value)
+}
+
+/** Lists what normalizeProfile changed while loading, i.e. where the saved file will differ from the opened one. */
+export default function ImportReport({ fileName, changes, onDismiss }: ImportReportProps) {
+  return (
+    <div className="import-report" role="status">
+      <div className="import-report-header">
+        <strong>
+          {changes.length} change{changes.length === 1 ? '' : 's'} applied on import of {fileName}
+        </strong>
+        <button type="button" onClick={onDismiss}>
+          Dismiss
+        </button>
+      </div>
+      <p className="import-report-note">Saving will write the values on the right.</p>
+      <ul className="import-report-list">
+        {changes.map((change, i) => (
+          <li key={i}>
+            <code className="import-report-path">{change.path}</code>
+            <span className="import-report-message">{change.message}</span>
+            <span className="import-report-values">
+              <code>{formatValue(change.before)}</code> → <code>{formatValue(change.after)}</code>
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
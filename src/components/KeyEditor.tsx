@@ -1,11 +1,10 @@
 import { useState, useRef, useEffect, useCallback, useMemo, type RefObject } from 'react'
 import type { DirectAccessKey } from '../types'
-import type { StationEntry } from '../lib/vacsStations'
-import {
-  normalizeStationIdForMatch,
-  getMatchTokens,
-  stationIdMatchesTokens,
-} from '../lib/stationIdMatch'
+import type { PositionEntry, StationEntry } from '../lib/vacsStations'
+import { searchStations } from '../lib/stationSearch'
+import { describeStation, formatPosition, getStationPositions } from '../lib/stationInfo'
+import type { StationCandidate } from '../lib/stationCandidates'
+import type { LabelGenerator } from '../lib/stationLabel'
 import { IconPlus, IconTrash, IconClear, IconChevronRightSmall } from './Icons'
 
 interface KeyEditorProps {
@@ -14,9 +13,18 @@ interface KeyEditorProps {
   selectedCount?: number
   stationIdInputRef?: RefObject<HTMLInputElement | null>
   stations?: StationEntry[] | null
-  stationIdsLoadError?: string | null
-  stationIdsLoading?: boolean
-  onLoadStations?: () => void
+  positions?: PositionEntry[] | null
+  /** Nearest dataset stations when the key's station ID is not in the dataset, best first. */
+  stationCandidates?: StationCandidate[]
+  /** FIRs of the open profile; their stations rank first in suggestions. */
+  profileFirs?: ReadonlySet<string>
+  /** Station IDs on the current page and its parents; stations at the same airports rank higher. */
+  nearbyStationIds?: readonly string[]
+  /**
+   * Set when labels are auto-filled: picking a suggestion relabels the key if its label is blank
+   * or still the one generated from the station ID it had when the field was focused.
+   */
+  makeLabel?: LabelGenerator
   onUpdateKey: (updater: (k: DirectAccessKey) => DirectAccessKey) => void
   onClearKeys: () => void
   onRemoveKey: () => void
@@ -28,31 +36,17 @@ interface KeyEditorProps {
 const SUGGESTIONS_MAX = 40
 const BLUR_DELAY_MS = 150
 
-/** Resolve effective controlled_by: own list + each parent's list appended (recursive), then stable deduplication. */
-function getResolvedControlledBy(entry: StationEntry, byId: Map<string, StationEntry>): string[] {
-  const seen = new Set<string>()
-  const result: string[] = []
-
-  function append(ids: string[]) {
-    for (const id of ids) {
-      if (!seen.has(id)) {
-        seen.add(id)
-        result.push(id)
-      }
-    }
+/** Text with the matched [start, end) ranges wrapped in <mark>. */
+function highlightRanges(text: string, ranges: [number, number][]): React.ReactNode {
+  const parts: React.ReactNode[] = []
+  let pos = 0
+  for (const [start, end] of ranges) {
+    if (start > pos) parts.push(text.slice(pos, start))
+    parts.push(<mark key={start}>{text.slice(start, end)}</mark>)
+    pos = end
   }
-
-  function resolve(e: StationEntry, visited: Set<string>): void {
-    append(e.controlled_by ?? [])
-    if (e.parent_id && !visited.has(e.parent_id)) {
-      visited.add(e.parent_id)
-      const parent = byId.get(e.parent_id)
-      if (parent) resolve(parent, visited)
-    }
-  }
-
-  resolve(entry, new Set<string>())
-  return result
+  if (pos < text.length) parts.push(text.slice(pos))
+  return parts
 }
 
 export default function KeyEditor({
@@ -61,9 +55,11 @@ export default function KeyEditor({
   selectedCount = 1,
   stationIdInputRef,
   stations = null,
-  stationIdsLoadError = null,
-  stationIdsLoading = false,
-  onLoadStations,
+  positions = null,
+  stationCandidates = [],
+  profileFirs,
+  nearbyStationIds,
+  makeLabel,
   onUpdateKey,
   onClearKeys,
   onRemoveKey,
@@ -75,18 +71,34 @@ export default function KeyEditor({
   const [highlightIndex, setHighlightIndex] = useState(0)
   const suggestionListRef = useRef<HTMLUListElement>(null)
   const blurTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null)
+  /** Key and station ID when the station field was focused, to tell a generated label from a typed one. */
+  const focusedStationRef = useRef<{ keyIndex: number | null; stationId: string }>({ keyIndex: null, stationId: '' })
 
   const stationId = keyData?.station_id ?? ''
-  const matchTokens = getMatchTokens(stationId)
-  const suggestions = (stations ?? []).filter((s) =>
-    stationIdMatchesTokens(normalizeStationIdForMatch(s.id), matchTokens)
-  ).slice(0, SUGGESTIONS_MAX)
+  const suggestions = useMemo(
+    () => searchStations(stationId, stations ?? [], { profileFirs, nearbyStationIds, limit: SUGGESTIONS_MAX }),
+    [stationId, stations, profileFirs, nearbyStationIds]
+  )
   const showSuggestions = suggestionOpen && stationId.length > 0 && suggestions.length > 0
   const stationsById = useMemo(() => {
     const map = new Map<string, StationEntry>()
     for (const s of stations ?? []) map.set(s.id, s)
     return map
   }, [stations])
+  const positionsById = useMemo(() => {
+    const map = new Map<string, PositionEntry>()
+    for (const p of positions ?? []) map.set(p.id, p)
+    return map
+  }, [positions])
+  // Primary controlling position per suggestion (frequency, facility type, callsign prefixes), same order as suggestions
+  const suggestionPositions = useMemo(
+    () =>
+      suggestions.map(({ station }) => {
+        const primary = getStationPositions(station, stationsById, positionsById)[0]
+        return primary != null ? formatPosition(primary) : null
+      }),
+    [suggestions, stationsById, positionsById]
+  )
 
   const closeSuggestions = useCallback(() => {
     setSuggestionOpen(false)
@@ -95,10 +107,22 @@ export default function KeyEditor({
 
   const selectSuggestion = useCallback(
     (entry: StationEntry) => {
-      onUpdateKey((k) => ({ ...k, station_id: entry.id }))
+      onUpdateKey((k) => {
+        // Another key selected while the field kept focus: only blank labels are filled
+        const focused = focusedStationRef.current
+        const previousLabel = focused.keyIndex === keyIndex ? makeLabel?.(focused.stationId) ?? [] : null
+        const autoLabel =
+          makeLabel != null &&
+          (k.label.every((line) => line.trim() === '') ||
+            (previousLabel != null &&
+              k.label.length === previousLabel.length &&
+              k.label.every((line, i) => line === previousLabel[i])))
+        return autoLabel ? { ...k, station_id: entry.id, label: makeLabel(entry.id) } : { ...k, station_id: entry.id }
+      })
+      focusedStationRef.current = { keyIndex, stationId: entry.id }
       closeSuggestions()
     },
-    [onUpdateKey, closeSuggestions]
+    [onUpdateKey, closeSuggestions, makeLabel, keyIndex]
   )
 
   useEffect(() => {
@@ -141,6 +165,8 @@ export default function KeyEditor({
     if (blurTimeoutRef.current != null) {
       clearTimeout(blurTimeoutRef.current)
       blurTimeoutRef.current = null
+    } else {
+      focusedStationRef.current = { keyIndex, stationId }
     }
     if (stationId.length > 0 && (stations ?? []).length > 0) setSuggestionOpen(true)
   }
@@ -179,7 +205,7 @@ export default function KeyEditor({
     }
     if (e.key === 'Enter' && suggestions[highlightIndex]) {
       e.preventDefault()
-      selectSuggestion(suggestions[highlightIndex])
+      selectSuggestion(suggestions[highlightIndex].station)
     }
   }
 
@@ -214,26 +240,12 @@ export default function KeyEditor({
         />
       </label>
       <div className="station-id-field">
-        <label className="station-id-label">
+        <label className="station-id-label" htmlFor="station-id-input">
           Station ID
-          <button
-            type="button"
-            className="station-id-load-btn"
-            onClick={onLoadStations}
-            disabled={stationIdsLoading}
-            title="Reload station list from GitHub dataset"
-            aria-label="Reload GitHub Dataset"
-          >
-            {stationIdsLoading ? 'Loading…' : 'Reload GitHub Dataset'}
-          </button>
         </label>
-        {stationIdsLoadError != null && (
-          <p className="station-id-load-error" role="alert">
-            {stationIdsLoadError}
-          </p>
-        )}
         <div className="station-id-input-wrap">
           <input
+            id="station-id-input"
             ref={stationIdInputRef}
             type="text"
             value={stationId}
@@ -253,25 +265,23 @@ export default function KeyEditor({
               className="station-id-suggestions"
               role="listbox"
             >
-              {suggestions.map((entry, i) => (
+              {suggestions.map(({ station: entry, ranges }, i) => (
                 <li
                   key={`${entry.fir}-${entry.id}`}
                   role="option"
                   data-highlight={i === highlightIndex}
                   className={i === highlightIndex ? 'station-id-suggestion highlighted' : 'station-id-suggestion'}
-                  title={
-                    (() => {
-                      const resolved = getResolvedControlledBy(entry, stationsById)
-                      return resolved.length > 0 ? `Controlled by:\n${resolved.join('\n')}` : undefined
-                    })()
-                  }
+                  title={describeStation(entry, stationsById, positionsById)}
                   onMouseDown={(e) => {
                     e.preventDefault()
                     selectSuggestion(entry)
                   }}
                 >
-                  <span className="station-id-suggestion-id">{entry.id}</span>
+                  <span className="station-id-suggestion-id">{highlightRanges(entry.id, ranges)}</span>
                   <span className="station-id-suggestion-fir">({entry.fir})</span>
+                  {suggestionPositions[i] != null && (
+                    <span className="station-id-suggestion-position">{suggestionPositions[i]}</span>
+                  )}
                 </li>
               ))}
             </ul>
@@ -282,6 +292,22 @@ export default function KeyEditor({
             Station ID not found in VACS dataset
           </p>
         )}
+        {stationId.length > 0 && hasStations && !stationExists && stationCandidates.length > 0 && (
+          <div className="station-id-fixes">
+            <span className="station-id-fixes-label">Did you mean</span>
+            {stationCandidates.map((c) => (
+              <button
+                key={c.station.id}
+                type="button"
+                className="station-id-fix-btn"
+                onClick={() => onUpdateKey((k) => ({ ...k, station_id: c.station.id }))}
+                title={`Replace with ${c.station.id}\n\n${describeStation(c.station, stationsById, positionsById)}`}
+              >
+                {c.station.id}
+              </button>
+            ))}
+          </div>
+        )}
       </div>
       {hasSubpage ? (
         <div className="key-editor-subpage-actions">
@@ -1,19 +1,20 @@
-import {
-  DndContext,
-  closestCenter,
-  KeyboardSensor,
-  PointerSensor,
-  useSensor,
-  useSensors,
-  type DragEndEvent,
-} from '@dnd-kit/core'
-import { SortableContext, sortableKeyboardCoordinates, useSortable, rectSortingStrategy } from '@dnd-kit/sortable'
+import { useDroppable } from '@dnd-kit/core'
+import { SortableContext, useSortable, rectSortingStrategy } from '@dnd-kit/sortable'
 import { CSS } from '@dnd-kit/utilities'
 import type { DirectAccessKey } from '../types'
 import type { BreadcrumbItem, SubpagePath } from '../App'
 import type { StationEntry } from '../lib/vacsStations'
 import { hasStationIdMismatch } from '../lib/stationIdMatch'
-import { IconPlus, IconChevronUp, IconChevronDown, IconChevronLeft, IconChevronRight, IconCopy, IconCut, IconPaste, IconTrash, IconSwap } from './Icons'
+import type { KeyCoverage } from '../lib/coverage'
+import {
+  KEY_GRID_DROP_ID,
+  breadcrumbDropId,
+  getStationDragIds,
+  keySortableId,
+  parseKeySortableId,
+  subpageDropId,
+} from '../lib/dndTargets'
+import { IconPlus, IconChevronUp, IconChevronDown, IconChevronLeft, IconChevronRight, IconCopy, IconCut, IconPaste, IconTrash, IconSwap, IconGroup, IconFlatten } from './Icons'
 
 interface KeyGridProps {
   keys: DirectAccessKey[]
@@ -21,7 +22,6 @@ interface KeyGridProps {
   selectedKeyIndices: number[]
   onSelectKey: (index: number, addToSelection: boolean, rangeSelect: boolean) => void
   onDoubleClickKey?: (index: number) => void
-  onReorderKeys: (from: number, to: number) => void
   onMoveSelectedKeys?: (direction: 'up' | 'down' | 'left' | 'right') => void
   onAddKey: () => void
   onRemoveKey: () => void
@@ -29,18 +29,37 @@ interface KeyGridProps {
   onCopyKeys?: () => void
   onCutKeys?: () => void
   onPasteKeys?: () => void
+  /** Replace the selected keys with a folder key whose subpage holds them. */
+  onGroupKeys?: () => void
+  /** Inline the subpages of the selected keys; only passed when a selected key has one. */
+  onFlattenSubpages?: () => void
   breadcrumbItems: BreadcrumbItem[]
   onBackToPath: (path: SubpagePath) => void
   isClientPage?: boolean
   stations?: StationEntry[] | null
+  /** Coverage simulation result per key (same order as keys); null when the simulator is off. */
+  coverage?: KeyCoverage[] | null
+  /** Tooltip text for a station ID (FIR, controlling positions with frequencies); undefined when unknown. */
+  getStationTooltip?: (stationId: string) => string | undefined
   tabBarSlot?: React.ReactNode
 }
 
+function describeCoverage(coverage: KeyCoverage): string {
+  const parts: string[] = []
+  if (coverage.station?.status === 'covered') parts.push(`Answered by ${coverage.station.controller}`)
+  else if (coverage.station?.status === 'uncovered') parts.push('No online position answers this station')
+  else if (coverage.station?.status === 'unknown') parts.push('Station not in dataset; coverage unknown')
+  if (coverage.uncoveredInSubpage > 0) parts.push(`${coverage.uncoveredInSubpage} uncovered on subpage`)
+  return parts.join('\n')
+}
+
 function SortableKeyCell({
   keyData,
   index,
   isSelected,
   hasStationMismatch,
+  coverage,
+  stationTooltip,
   onSelect,
   onDoubleClick,
 }: {
@@ -48,6 +67,8 @@ function SortableKeyCell({
   index: number
   isSelected: boolean
   hasStationMismatch: boolean
+  coverage?: KeyCoverage
+  stationTooltip?: string
   onSelect: (e: React.MouseEvent) => void
   onDoubleClick?: () => void
 }) {
@@ -58,7 +79,18 @@ function SortableKeyCell({
     transform,
     transition,
     isDragging,
-  } = useSortable({ id: `key-${index}` })
+    isOver,
+    active,
+  } = useSortable({ id: keySortableId(index) })
+  // Stations dropped from the browser land on (empty key) or before this cell
+  const isStationDropTarget = isOver && getStationDragIds(active) != null
+  const hasSubpage = keyData.page != null
+  // Keys dropped on the middle of a key with a subpage move into that subpage
+  const { setNodeRef: setSubpageDropRef, isOver: isSubpageOver } = useDroppable({
+    id: subpageDropId(index),
+    disabled: !hasSubpage || isDragging,
+  })
+  const isSubpageDropTarget = isSubpageOver && active != null && parseKeySortableId(active.id) != null
 
   const style = {
     transform: CSS.Transform.toString(transform),
@@ -76,18 +108,21 @@ function SortableKeyCell({
   const showStationOnly = hasStationId && !labelHasText
   const showLabelOnly = !hasStationId && labelHasText
   const showMismatch = labelHasText && hasStationMismatch
-  const hasSubpage = keyData.page != null
+  const coverageClass = coverage?.station != null ? `key-cell-coverage-${coverage.station.status}` : ''
+  const showCoverage = coverage != null && (coverage.station != null || coverage.uncoveredInSubpage > 0)
 
   return (
     <div
       ref={setNodeRef}
-      className={`key-cell ${isSelected ? 'selected' : ''} ${isDragging ? 'dragging' : ''} ${isEmpty ? 'key-cell-empty' : ''} ${hasNoStation ? 'key-cell-no-station' : ''} ${hasSubpage ? 'key-cell-has-subpage' : ''} ${hasStationMismatch ? 'key-cell-station-mismatch' : ''}`}
+      className={`key-cell ${isSelected ? 'selected' : ''} ${isDragging ? 'dragging' : ''} ${isStationDropTarget || isSubpageDropTarget ? 'over' : ''} ${isEmpty ? 'key-cell-empty' : ''} ${hasNoStation ? 'key-cell-no-station' : ''} ${hasSubpage ? 'key-cell-has-subpage' : ''} ${hasStationMismatch ? 'key-cell-station-mismatch' : ''} ${coverageClass}`}
       style={style}
+      title={stationTooltip}
       onClick={onSelect}
       onDoubleClick={onDoubleClick}
       {...attributes}
       {...listeners}
     >
+      {hasSubpage && <span ref={setSubpageDropRef} className="key-cell-subpage-drop" aria-hidden />}
       {showMismatch && (
         <span className="key-cell-mismatch-indicator" title="Station ID not found in VACS dataset" aria-hidden>
           <svg width="10" height="10" viewBox="0 0 16 16" fill="currentColor" aria-hidden>
@@ -104,6 +139,14 @@ function SortableKeyCell({
           {line2 && <span className="key-cell-line">{line2}</span>}
         </>
       )}
+      {showCoverage && (
+        <span className="key-cell-coverage" title={describeCoverage(coverage)}>
+          {coverage.station?.status === 'covered' && coverage.station.controller}
+          {coverage.station?.status === 'uncovered' && 'uncovered'}
+          {coverage.station?.status === 'unknown' && '?'}
+          {coverage.uncoveredInSubpage > 0 && <span className="key-cell-coverage-subpage"> ›{coverage.uncoveredInSubpage}</span>}
+        </span>
+      )}
       {(showStationOnly || showLabelOnly || hasSubpage) && (
         <span className="key-cell-corner-indicators">
           {showStationOnly && (
@@ -133,13 +176,24 @@ function SortableKeyCell({
   )
 }
 
+/** Breadcrumb link that navigates up and takes keys dropped on it (moved to that page). */
+function BreadcrumbDropSegment({ depth, label, onClick }: { depth: number; label: string; onClick: () => void }) {
+  const { setNodeRef, isOver, active } = useDroppable({ id: breadcrumbDropId(depth) })
+  const isKeyDropTarget = isOver && active != null && parseKeySortableId(active.id) != null
+
+  return (
+    <button ref={setNodeRef} type="button" className={isKeyDropTarget ? 'over' : ''} onClick={onClick}>
+      {label}
+    </button>
+  )
+}
+
 export default function KeyGrid({
   keys,
   rows,
   selectedKeyIndices,
   onSelectKey,
   onDoubleClickKey,
-  onReorderKeys,
   onMoveSelectedKeys,
   onAddKey,
   onRemoveKey,
@@ -147,24 +201,22 @@ export default function KeyGrid({
   onCopyKeys,
   onCutKeys,
   onPasteKeys,
+  onGroupKeys,
+  onFlattenSubpages,
   breadcrumbItems,
   onBackToPath,
   isClientPage = false,
   stations = null,
+  coverage = null,
+  getStationTooltip,
   tabBarSlot,
 }: KeyGridProps) {
-  const sensors = useSensors(
-    useSensor(PointerSensor, { activationConstraint: { distance: 8 } }),
-    useSensor(KeyboardSensor, { coordinateGetter: sortableKeyboardCoordinates })
-  )
-
-  const handleDragEnd = (event: DragEndEvent) => {
-    const { active, over } = event
-    if (over == null || active.id === over.id) return
-    const from = keys.findIndex((_, i) => `key-${i}` === active.id)
-    const to = keys.findIndex((_, i) => `key-${i}` === over.id)
-    if (from >= 0 && to >= 0) onReorderKeys(from, to)
-  }
+  // Drop zone for stations dragged onto free grid space; the drag itself is handled by App's DndContext
+  const { setNodeRef: setGridDropRef, isOver: isGridOver, active } = useDroppable({
+    id: KEY_GRID_DROP_ID,
+    disabled: isClientPage,
+  })
+  const isStationDropTarget = isGridOver && getStationDragIds(active) != null
 
   const cols = rows > 0 ? Math.max(Math.ceil(keys.length / rows) || 1, 8) : 8
 
@@ -176,9 +228,7 @@ export default function KeyGrid({
             <span key={i} className="breadcrumb-segment">
               {i > 0 && <span className="breadcrumb-sep"> › </span>}
               {i < breadcrumbItems.length - 1 ? (
-                <button type="button" onClick={() => onBackToPath(item.path)}>
-                  {item.label}
-                </button>
+                <BreadcrumbDropSegment depth={i} label={item.label} onClick={() => onBackToPath(item.path)} />
               ) : (
                 <span className="breadcrumb-current">{item.label}</span>
               )}
@@ -188,34 +238,35 @@ export default function KeyGrid({
       )}
       {isClientPage && (
         <p>
-          <span className="client-page-badge">Client page (read-only)</span>
+          <span className="client-page-badge">Client page: edit its filters in the sidebar</span>
         </p>
       )}
       <div className="key-grid-scroll-wrap">
         <div className="key-grid-inner">
       <div
-        className="key-grid"
+        ref={setGridDropRef}
+        className={`key-grid ${isStationDropTarget ? 'key-grid-drop-target' : ''}`}
         style={{
           gridTemplateColumns: `repeat(${cols}, 106px)`,
           gridTemplateRows: `repeat(${rows}, 1fr)`,
           gridAutoFlow: 'column',
         }}
       >
-        <DndContext sensors={sensors} collisionDetection={closestCenter} onDragEnd={handleDragEnd}>
-          <SortableContext items={keys.map((_, i) => `key-${i}`)} strategy={rectSortingStrategy}>
-            {keys.map((keyData, i) => (
-              <SortableKeyCell
-                key={i}
-                keyData={keyData}
-                index={i}
-                isSelected={selectedKeyIndices.includes(i)}
-                hasStationMismatch={hasStationIdMismatch(keyData.station_id, stations)}
-                onSelect={(e) => onSelectKey(i, e.ctrlKey || e.metaKey, e.shiftKey)}
-                onDoubleClick={onDoubleClickKey ? () => onDoubleClickKey(i) : undefined}
-              />
-            ))}
-          </SortableContext>
-        </DndContext>
+        <SortableContext items={keys.map((_, i) => keySortableId(i))} strategy={rectSortingStrategy}>
+          {keys.map((keyData, i) => (
+            <SortableKeyCell
+              key={i}
+              keyData={keyData}
+              index={i}
+              isSelected={selectedKeyIndices.includes(i)}
+              hasStationMismatch={hasStationIdMismatch(keyData.station_id, stations)}
+              coverage={coverage?.[i]}
+              stationTooltip={keyData.station_id ? getStationTooltip?.(keyData.station_id.trim()) : undefined}
+              onSelect={(e) => onSelectKey(i, e.ctrlKey || e.metaKey, e.shiftKey)}
+              onDoubleClick={onDoubleClickKey ? () => onDoubleClickKey(i) : undefined}
+            />
+          ))}
+        </SortableContext>
       </div>
         </div>
       </div>
@@ -260,6 +311,16 @@ export default function KeyGrid({
                 <IconPaste />
               </button>
             )}
+            {onGroupKeys && (
+              <button type="button" onClick={onGroupKeys} className="key-action-btn" title="Group into subpage (Ctrl+G)" aria-label="Group into subpage">
+                <IconGroup />
+              </button>
+            )}
+            {onFlattenSubpages && (
+              <button type="button" onClick={onFlattenSubpages} className="key-action-btn" title="Flatten subpage (Ctrl+Shift+G)" aria-label="Flatten subpage">
+                <IconFlatten />
+              </button>
+            )}
             <button type="button" onClick={onRemoveKey} className="key-action-btn" title="Remove key" aria-label="Remove key">
               <IconTrash />
             </button>
@@ -0,0 +1,92 @@
+import { useState } from 'react'
+import { formatNameMap, generateLabel, parseNameMap, type LabelTemplates } from '../lib/labelTemplates'
+
+interface LabelTemplatesPanelProps {
+  templates: LabelTemplates
+  onChange: (templates: LabelTemplates) => void
+  /** Label of the current tab, for the regenerate button. */
+  tabLabel: string
+  /** Relabel every key with a station ID on the current tab (subpages included) as one undoable change. */
+  onRegenerateTab: () => void
+}
+
+/** Edit the label templates, preview them on a station ID and relabel the current tab. */
+export default function LabelTemplatesPanel({ templates, onChange, tabLabel, onRegenerateTab }: LabelTemplatesPanelProps) {
+  // Raw text is kept while editing so unfinished lines are not dropped by the parser
+  const [prefixText, setPrefixText] = useState(() => formatNameMap(templates.prefixNames))
+  const [suffixText, setSuffixText] = useState(() => formatNameMap(templates.suffixNames))
+  const [hiddenText, setHiddenText] = useState(() => templates.hiddenSuffixes.join(', '))
+  const [sample, setSample] = useState('EDGG_B_CTR')
+
+  const preview = generateLabel(sample, templates)
+
+  return (
+    <section className="tool-panel label-templates-panel">
+      <div className="tool-panel-header">
+        <h3>Label templates</h3>
+        <label className="tool-panel-option">
+          <input
+            type="checkbox"
+            checked={templates.autoFill}
+            onChange={(e) => onChange({ ...templates, autoFill: e.target.checked })}
+          />
+          Fill label when picking a station
+        </label>
+      </div>
+      <div className="label-templates-fields">
+        <label>
+          Names (prefix = name)
+          <textarea
+            value={prefixText}
+            onChange={(e) => {
+              setPrefixText(e.target.value)
+              onChange({ ...templates, prefixNames: parseNameMap(e.target.value) })
+            }}
+            placeholder={'LOWW = WIEN\nEDGG = LANGEN'}
+            rows={4}
+          />
+        </label>
+        <label>
+          Station types (suffix = text)
+          <textarea
+            value={suffixText}
+            onChange={(e) => {
+              setSuffixText(e.target.value)
+              onChange({ ...templates, suffixNames: parseNameMap(e.target.value) })
+            }}
+            placeholder="DEL = CLR"
+            rows={4}
+          />
+        </label>
+      </div>
+      <label className="label-templates-hidden">
+        Hidden station types
+        <input
+          type="text"
+          value={hiddenText}
+          onChange={(e) => {
+            setHiddenText(e.target.value)
+            onChange({
+              ...templates,
+              hiddenSuffixes: e.target.value
+                .split(/[\s,]+/)
+                .map((s) => s.trim().toUpperCase())
+                .filter(Boolean),
+            })
+          }}
+          placeholder="e.g. CTR, FSS"
+        />
+      </label>
+      <div className="label-templates-preview">
+        <input type="text" value={sample} onChange={(e) => setSample(e.target.value)} aria-label="Sample station ID" />
+        <span aria-hidden>→</span>
+        <span className="label-templates-preview-label">
+          {preview.length > 0 ? preview.map((line, i) => <span key={i}>{line}</span>) : '(blank)'}
+        </span>
+      </div>
+      <button type="button" onClick={onRegenerateTab} title="Replace the label of every key with a station ID on this tab">
+        Relabel tab "{tabLabel}" from station IDs
+      </button>
+    </section>
+  )
+}
@@ -0,0 +1,102 @@
+import { useState } from 'react'
+import type { TabbedProfile } from '../types'
+import type { StationEntry } from '../lib/vacsStations'
+import { forEachKey, describeLocation, type KeyLocation } from '../lib/profileWalk'
+import { hasStationIdMismatch } from '../lib/stationIdMatch'
+import { CONFIDENT_CANDIDATE_DISTANCE, getConfidentCandidate, rankStationCandidates, type StationCandidate } from '../lib/stationCandidates'
+
+export interface StationReplacement {
+  location: KeyLocation
+  stationId: string
+}
+
+interface MismatchReviewDialogProps {
+  profile: TabbedProfile
+  stations: StationEntry[]
+  profileFirs: ReadonlySet<string>
+  /** Accepted replacements, to be applied as one undoable change. */
+  onApply: (replacements: StationReplacement[]) => void
+  onClose: () => void
+}
+
+interface Mismatch {
+  location: KeyLocation
+  stationId: string
+  candidates: StationCandidate[]
+}
+
+/** Every key whose station ID is not in the dataset, with its best candidates; accept, change or skip each one. */
+export default function MismatchReviewDialog({ profile, stations, profileFirs, onApply, onClose }: MismatchReviewDialogProps) {
+  // Computed once when the dialog opens; the profile cannot change while it is open
+  const [mismatches] = useState(() => {
+    const result: Mismatch[] = []
+    forEachKey(profile, (key, location) => {
+      if (!hasStationIdMismatch(key.station_id, stations)) return
+      const stationId = key.station_id!.trim()
+      result.push({ location, stationId, candidates: rankStationCandidates(stationId, stations, profileFirs) })
+    })
+    return result
+  })
+
+  // Chosen replacement per row; '' = keep the current station ID. Only unambiguous near-typos start accepted.
+  const [choices, setChoices] = useState<string[]>(() =>
+    mismatches.map((m) => getConfidentCandidate(m.candidates)?.station.id ?? '')
+  )
+  const acceptedCount = choices.filter((c) => c !== '').length
+
+  const apply = () => {
+    onApply(
+      mismatches
+        .map((m, i) => ({ location: m.location, stationId: choices[i] }))
+        .filter((r) => r.stationId !== '')
+    )
+  }
+
+  return (
+    <div className="modal-overlay" role="dialog" aria-modal="true" aria-labelledby="mismatch-review-title">
+      <div className="modal modal-wide">
+        <h2 id="mismatch-review-title">Review station mismatches</h2>
+        {mismatches.length === 0 ? (
+          <p>All station IDs are in the dataset.</p>
+        ) : (
+          <>
+            <p>Pick a replacement for each station ID that is not in the dataset; only unambiguous typos (at most {CONFIDENT_CANDIDATE_DISTANCE} characters off) are preselected. All accepted replacements are applied as one change.</p>
+            <ul className="mismatch-review-list">
+              {mismatches.map((m, i) => (
+                <li key={i} className="mismatch-review-row">
+                  <span className="mismatch-review-location">
+                    {describeLocation(profile, m.location.tabIndex, m.location.path, m.location.keyIndex)}
+                  </span>
+                  <span className="mismatch-review-current">{m.stationId}</span>
+                  <span aria-hidden>→</span>
+                  <select
+                    value={choices[i]}
+                    onChange={(e) => setChoices((c) => c.map((v, j) => (j === i ? e.target.value : v)))}
+                    aria-label={`Replacement for ${m.stationId}`}
+                  >
+                    <option value="">Keep {m.stationId}</option>
+                    {m.candidates.map((c) => (
+                      <option key={c.station.id} value={c.station.id}>
+                        {c.station.id} ({c.station.fir}){profileFirs.size > 0 && !c.sameFir ? ' · other FIR' : ''}
+                      </option>
+                    ))}
+                  </select>
+                </li>
+              ))}
+            </ul>
+          </>
+        )}
+        <div className="modal-actions">
+          {mismatches.length > 0 && (
+            <button type="button" onClick={apply} disabled={acceptedCount === 0}>
+              Apply {acceptedCount} replacement{acceptedCount === 1 ? '' : 's'}
+            </button>
+          )}
+          <button type="button" onClick={onClose}>
+            {mismatches.length > 0 ? 'Cancel' : 'Close'}
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,85 @@
+import { useState } from 'react'
+import type { TabbedProfile } from '../types'
+import type { LintProblem, ProblemSeverity } from '../lib/lintProfile'
+import { describeLocation } from '../lib/profileWalk'
+
+interface ProblemsPanelProps {
+  profile: TabbedProfile
+  problems: LintProblem[]
+  maxSubpageDepth: number
+  onMaxSubpageDepthChange: (depth: number) => void
+  onSelectProblem: (problem: LintProblem) => void
+  /** Open the dialog that fixes all unknown station IDs at once. */
+  onReviewMismatches?: () => void
+}
+
+const SEVERITIES: { severity: ProblemSeverity; title: string }[] = [
+  { severity: 'error', title: 'Errors' },
+  { severity: 'warning', title: 'Warnings' },
+  { severity: 'info', title: 'Info' },
+]
+
+export default function ProblemsPanel({
+  profile,
+  problems,
+  maxSubpageDepth,
+  onMaxSubpageDepthChange,
+  onSelectProblem,
+  onReviewMismatches,
+}: ProblemsPanelProps) {
+  const mismatchCount = problems.filter((p) => p.rule === 'unknown-station').length
+  const [collapsed, setCollapsed] = useState<Record<ProblemSeverity, boolean>>({ error: false, warning: false, info: true })
+
+  return (
+    <section className="tool-panel problems-panel">
+      <div className="tool-panel-header">
+        <h3>Problems ({problems.length})</h3>
+        {onReviewMismatches && mismatchCount > 0 && (
+          <button type="button" onClick={onReviewMismatches}>
+            Review {mismatchCount} station mismatch{mismatchCount === 1 ? '' : 'es'}…
+          </button>
+        )}
+        <label className="tool-panel-option">
+          Max subpage depth
+          <input
+            type="number"
+            min={1}
+            value={maxSubpageDepth}
+            onChange={(e) => onMaxSubpageDepthChange(Math.max(1, parseInt(e.target.value, 10) || 1))}
+          />
+        </label>
+      </div>
+      {problems.length === 0 && <p className="tool-panel-empty">No problems found</p>}
+      {SEVERITIES.map(({ severity, title }) => {
+        const group = problems.filter((p) => p.severity === severity)
+        if (group.length === 0) return null
+        return (
+          <div key={severity} className={`problems-group problems-group-${severity}`}>
+            <button
+              type="button"
+              className="problems-group-toggle"
+              onClick={() => setCollapsed((c) => ({ ...c, [severity]: !c[severity] }))}
+              aria-expanded={!collapsed[severity]}
+            >
+              {collapsed[severity] ? '▸' : '▾'} {title} ({group.length})
+            </button>
+            {!collapsed[severity] && (
+              <ul className="problems-list">
+                {group.map((problem, i) => (
+                  <li key={i}>
+                    <button type="button" className="problems-item" onClick={() => onSelectProblem(problem)} title={problem.rule}>
+                      <span className="problems-item-location">
+                        {describeLocation(profile, problem.tabIndex, problem.path, problem.keyIndex)}
+                      </span>
+                      <span className="problems-item-message">{problem.message}</span>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )
+      })}
+    </section>
+  )
+}
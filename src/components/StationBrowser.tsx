@@ -0,0 +1,170 @@
+import { useMemo, useState } from 'react'
+import { useDraggable } from '@dnd-kit/core'
+import type { StationEntry } from '../lib/vacsStations'
+import { buildStationTree, type StationTreeNode } from '../lib/stationTree'
+import { searchStations } from '../lib/stationSearch'
+import { STATION_DRAG_PREFIX, type StationDragData } from '../lib/dndTargets'
+
+interface StationBrowserProps {
+  stations: StationEntry[] | null
+  /** Number of keys per station ID in the open profile. */
+  usedStationIds: Map<string, number>
+  profileFirs?: ReadonlySet<string>
+  nearbyStationIds?: readonly string[]
+  /** False on client pages, which have no keys. */
+  canAdd: boolean
+  /** Append keys for these stations to the current page. */
+  onAddStations: (stationIds: string[]) => void
+}
+
+const SEARCH_RESULTS_MAX = 100
+
+function StationRow({
+  station,
+  depth,
+  selected,
+  usedCount,
+  dragIds,
+  disabled,
+  onSelect,
+}: {
+  station: StationEntry
+  depth: number
+  selected: boolean
+  usedCount: number
+  dragIds: string[]
+  disabled: boolean
+  onSelect: (e: React.MouseEvent) => void
+}) {
+  const data: StationDragData = { stationIds: dragIds }
+  const { attributes, listeners, setNodeRef, isDragging } = useDraggable({
+    id: `${STATION_DRAG_PREFIX}${station.id}`,
+    data,
+    disabled,
+  })
+  return (
+    <div
+      ref={setNodeRef}
+      className={`station-browser-row ${selected ? 'selected' : ''} ${isDragging ? 'dragging' : ''}`}
+      style={{ paddingLeft: `${0.5 + depth * 0.9}rem` }}
+      onClick={onSelect}
+      title={disabled ? station.id : `${station.id}: drag onto the grid to add a key`}
+      {...attributes}
+      {...listeners}
+    >
+      <span className="station-browser-id">{station.id}</span>
+      {usedCount > 0 && (
+        <span className="station-browser-used" title={`Used on ${usedCount} key${usedCount === 1 ? '' : 's'}`}>
+          ●{usedCount > 1 ? usedCount : ''}
+        </span>
+      )}
+    </div>
+  )
+}
+
+/** Loaded dataset as a FIR / parent_id tree with search; stations are dragged onto the key grid or added with a button. */
+export default function StationBrowser({
+  stations,
+  usedStationIds,
+  profileFirs,
+  nearbyStationIds,
+  canAdd,
+  onAddStations,
+}: StationBrowserProps) {
+  const [query, setQuery] = useState('')
+  const [expandedFirs, setExpandedFirs] = useState<Set<string>>(() => new Set())
+  const [selected, setSelected] = useState<string[]>([])
+
+  const tree = useMemo(() => buildStationTree(stations ?? []), [stations])
+  const results = useMemo(
+    () =>
+      query.trim() === ''
+        ? null
+        : searchStations(query, stations ?? [], { profileFirs, nearbyStationIds, limit: SEARCH_RESULTS_MAX }),
+    [query, stations, profileFirs, nearbyStationIds]
+  )
+
+  const handleSelect = (id: string, e: React.MouseEvent) => {
+    if (e.ctrlKey || e.metaKey) setSelected((prev) => (prev.includes(id) ? prev.filter((s) => s !== id) : [...prev, id]))
+    else setSelected((prev) => (prev.length === 1 && prev[0] === id ? [] : [id]))
+  }
+
+  const renderRow = (station: StationEntry, depth: number) => (
+    <StationRow
+      key={station.id}
+      station={station}
+      depth={depth}
+      selected={selected.includes(station.id)}
+      usedCount={usedStationIds.get(station.id) ?? 0}
+      // Dragging a selected station drags the whole selection
+      dragIds={selected.includes(station.id) ? selected : [station.id]}
+      disabled={!canAdd}
+      onSelect={(e) => handleSelect(station.id, e)}
+    />
+  )
+
+  const renderNode = (node: StationTreeNode, depth: number): React.ReactNode => (
+    <div key={node.station.id}>
+      {renderRow(node.station, depth)}
+      {node.children.map((child) => renderNode(child, depth + 1))}
+    </div>
+  )
+
+  const toggleFir = (fir: string) =>
+    setExpandedFirs((prev) => {
+      const next = new Set(prev)
+      if (next.has(fir)) next.delete(fir)
+      else next.add(fir)
+      return next
+    })
+
+  return (
+    <section className="station-browser">
+      <h3>Stations</h3>
+      <input
+        type="search"
+        value={query}
+        onChange={(e) => setQuery(e.target.value)}
+        placeholder="Search stations"
+        aria-label="Search stations"
+      />
+      <div className="station-browser-actions">
+        <button type="button" disabled={!canAdd || selected.length === 0} onClick={() => onAddStations(selected)}>
+          Add {selected.length > 1 ? `${selected.length} keys` : 'key'}
+        </button>
+        {selected.length > 0 && (
+          <button type="button" onClick={() => setSelected([])}>
+            Clear selection
+          </button>
+        )}
+      </div>
+      <div className="station-browser-list">
+        {stations == null || stations.length === 0 ? (
+          <p className="tool-panel-empty">No station dataset loaded</p>
+        ) : results != null ? (
+          results.length === 0 ? (
+            <p className="tool-panel-empty">No matching stations</p>
+          ) : (
+            results.map((m) => renderRow(m.station, 0))
+          )
+        ) : (
+          tree.map((fir) => (
+            <div key={fir.fir} className="station-browser-fir">
+              <button
+                type="button"
+                className="station-browser-fir-toggle"
+                onClick={() => toggleFir(fir.fir)}
+                aria-expanded={expandedFirs.has(fir.fir)}
+              >
+                {expandedFirs.has(fir.fir) ? '▾' : '▸'} {fir.fir}
+                <span className="station-browser-count">{fir.stationCount}</span>
+              </button>
+              {expandedFirs.has(fir.fir) && fir.roots.map((node) => renderNode(node, 1))}
+            </div>
+          ))
+        )}
+      </div>
+      <p className="station-browser-hint">Ctrl+click to select several, then drag them onto the grid.</p>
+    </section>
+  )
+}
@@ -0,0 +1,83 @@
+import { useMemo } from 'react'
+import type { TabbedProfile } from '../types'
+import type { StationEntry } from '../lib/vacsStations'
+import { getStationUsage } from '../lib/stationUsage'
+import { describeLocation } from '../lib/profileWalk'
+
+interface StationUsagePanelProps {
+  profile: TabbedProfile
+  stationsById: Map<string, StationEntry>
+  /** FIRs of the open profile (see getProfileFirs). */
+  profileFirs: ReadonlySet<string>
+  /** Append a key for the station to the current page; undefined when that page cannot take keys. */
+  onAddStation?: (stationId: string) => void
+  onSelectKey: (tabIndex: number, path: number[], keyIndex: number) => void
+}
+
+/** Stations of the profile's FIRs that no key uses, and keys pointing at stations of other FIRs. */
+export default function StationUsagePanel({
+  profile,
+  stationsById,
+  profileFirs,
+  onAddStation,
+  onSelectKey,
+}: StationUsagePanelProps) {
+  const report = useMemo(
+    () => getStationUsage(profile, stationsById, profileFirs),
+    [profile, stationsById, profileFirs]
+  )
+  const firList = [...profileFirs].sort().join(', ')
+
+  return (
+    <section className="tool-panel station-usage-panel">
+      <div className="tool-panel-header">
+        <h3>Station usage{firList !== '' ? ` (${firList})` : ''}</h3>
+      </div>
+      {stationsById.size === 0 ? (
+        <p className="tool-panel-empty">Load the station dataset to compare it with the profile</p>
+      ) : profileFirs.size === 0 ? (
+        <p className="tool-panel-empty">The profile ID names no FIR of the dataset (e.g. "LOVV")</p>
+      ) : (
+        <>
+          <h4 className="station-usage-heading">Unused stations ({report.unused.length})</h4>
+          {report.unused.length === 0 ? (
+            <p className="tool-panel-empty">Every station of the FIR is on a key</p>
+          ) : (
+            <ul className="station-usage-list">
+              {report.unused.map((station) => (
+                <li key={station.id} className="station-usage-row">
+                  <span className="station-usage-id">{station.id}</span>
+                  <button
+                    type="button"
+                    onClick={() => onAddStation?.(station.id)}
+                    disabled={!onAddStation}
+                    title="Add a key for this station to the current page"
+                  >
+                    Add key
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+          <h4 className="station-usage-heading">Keys outside the FIR ({report.outside.length})</h4>
+          {report.outside.length === 0 ? (
+            <p className="tool-panel-empty">No key uses a station of another FIR</p>
+          ) : (
+            <ul className="problems-list">
+              {report.outside.map((key, i) => (
+                <li key={i}>
+                  <button type="button" className="problems-item" onClick={() => onSelectKey(key.tabIndex, key.path, key.keyIndex)}>
+                    <span className="problems-item-location">{describeLocation(profile, key.tabIndex, key.path, key.keyIndex)}</span>
+                    <span className="problems-item-message">
+                      {key.stationId} is in {key.fir}
+                    </span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </>
+      )}
+    </section>
+  )
+}
@@ -1,23 +1,20 @@
-import {
-  DndContext,
-  closestCenter,
-  KeyboardSensor,
-  PointerSensor,
-  useSensor,
-  useSensors,
-  type DragEndEvent,
-} from '@dnd-kit/core'
-import { SortableContext, sortableKeyboardCoordinates, useSortable, horizontalListSortingStrategy } from '@dnd-kit/sortable'
+import { SortableContext, useSortable, horizontalListSortingStrategy } from '@dnd-kit/sortable'
 import { CSS } from '@dnd-kit/utilities'
 import type { Tab } from '../types'
+import { parseKeySortableId, tabSortableId } from '../lib/dndTargets'
+import { IconCopyToClipboard, IconPaste } from './Icons'
 
 interface TabBarProps {
   tabs: Tab[]
   selectedIndex: number
   onSelectTab: (index: number) => void
-  onReorderTabs: (from: number, to: number) => void
   onAddTab: () => void
+  onAddClientPageTab?: () => void
   onDuplicateTab?: () => void
+  /** Copy the selected tab to the clipboard as JSON. */
+  onCopyTab?: () => void
+  /** Insert a tab from the clipboard after the selected one. */
+  onPasteTab?: () => void
   onRemoveTab: () => void
 }
 
@@ -39,7 +36,11 @@ function SortableTab({
     transform,
     transition,
     isDragging,
-  } = useSortable({ id: `tab-${index}` })
+    isOver,
+    active,
+  } = useSortable({ id: tabSortableId(index) })
+  // Reordering and dropping keys onto the tab are handled by App's DndContext
+  const isKeyDropTarget = isOver && active != null && parseKeySortableId(active.id) != null
 
   const style = {
     transform: CSS.Transform.toString(transform),
@@ -50,7 +51,7 @@ function SortableTab({
     <button
       ref={setNodeRef}
       type="button"
-      className={`tab ${isSelected ? 'selected' : ''} ${isDragging ? 'dragging' : ''}`}
+      className={`tab ${isSelected ? 'selected' : ''} ${isDragging ? 'dragging' : ''} ${isKeyDropTarget ? 'over' : ''}`}
       style={style}
       onClick={onSelect}
       {...attributes}
@@ -65,20 +66,7 @@ function SortableTab({
   )
 }
 
-export default function TabBar({ tabs, selectedIndex, onSelectTab, onReorderTabs, onAddTab, onDuplicateTab, onRemoveTab }: TabBarProps) {
-  const sensors = useSensors(
-    useSensor(PointerSensor, { activationConstraint: { distance: 8 } }),
-    useSensor(KeyboardSensor, { coordinateGetter: sortableKeyboardCoordinates })
-  )
-
-  const handleDragEnd = (event: DragEndEvent) => {
-    const { active, over } = event
-    if (over == null || active.id === over.id) return
-    const from = tabs.findIndex((_, i) => `tab-${i}` === active.id)
-    const to = tabs.findIndex((_, i) => `tab-${i}` === over.id)
-    if (from >= 0 && to >= 0) onReorderTabs(from, to)
-  }
-
+export default function TabBar({ tabs, selectedIndex, onSelectTab, onAddTab, onAddClientPageTab, onDuplicateTab, onCopyTab, onPasteTab, onRemoveTab }: TabBarProps) {
   return (
     <div className="tab-bar">
       <div className="tab-bar-actions">
@@ -87,6 +75,13 @@ export default function TabBar({ tabs, selectedIndex, onSelectTab, onReorderTabs
             <path d="M8 3v10M3 8h10" />
           </svg>
         </button>
+        {onAddClientPageTab && (
+          <button type="button" onClick={onAddClientPageTab} className="tab-bar-btn" title="Add client page tab" aria-label="Add client page tab">
+            <svg width="16" height="16" viewBox="0 0 16 16" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" aria-hidden>
+              <path d="M2 4h7M2 8h7M2 12h5M12 9v5M9.5 11.5h5" />
+            </svg>
+          </button>
+        )}
         {onDuplicateTab && (
           <button type="button" onClick={onDuplicateTab} className="tab-bar-btn" title="Duplicate tab" aria-label="Duplicate tab">
             <svg width="16" height="16" viewBox="0 0 16 16" fill="none" stroke="currentColor" strokeWidth="2" strokeLinejoin="round" aria-hidden>
@@ -95,6 +90,16 @@ export default function TabBar({ tabs, selectedIndex, onSelectTab, onReorderTabs
             </svg>
           </button>
         )}
+        {onCopyTab && (
+          <button type="button" onClick={onCopyTab} className="tab-bar-btn" title="Copy tab to clipboard" aria-label="Copy tab">
+            <IconCopyToClipboard />
+          </button>
+        )}
+        {onPasteTab && (
+          <button type="button" onClick={onPasteTab} className="tab-bar-btn" title="Paste tab from clipboard" aria-label="Paste tab">
+            <IconPaste />
+          </button>
+        )}
         {tabs.length > 1 && (
           <button type="button" onClick={onRemoveTab} className="tab-bar-btn" title="Remove tab" aria-label="Remove tab">
             <svg width="16" height="16" viewBox="0 0 16 16" fill="none" stroke="currentColor" strokeWidth="2" aria-hidden>
@@ -104,19 +109,17 @@ export default function TabBar({ tabs, selectedIndex, onSelectTab, onReorderTabs
         )}
       </div>
       <div className="tab-bar-tabs">
-        <DndContext sensors={sensors} collisionDetection={closestCenter} onDragEnd={handleDragEnd}>
-          <SortableContext items={tabs.map((_, i) => `tab-${i}`)} strategy={horizontalListSortingStrategy}>
-            {tabs.map((tab, i) => (
-              <SortableTab
-                key={`${i}-${tab.label}`}
-                tab={tab}
-                index={i}
-                isSelected={i === selectedIndex}
-                onSelect={() => onSelectTab(i)}
-              />
-            ))}
-          </SortableContext>
-        </DndContext>
+        <SortableContext items={tabs.map((_, i) => tabSortableId(i))} strategy={horizontalListSortingStrategy}>
+          {tabs.map((tab, i) => (
+            <SortableTab
+              key={`${i}-${tab.label}`}
+              tab={tab}
+              index={i}
+              isSelected={i === selectedIndex}
+              onSelect={() => onSelectTab(i)}
+            />
+          ))}
+        </SortableContext>
       </div>
     </div>
   )
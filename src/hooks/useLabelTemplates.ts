@@ -0,0 +1,14 @@
+import { useState, useCallback } from 'react'
+import { readLabelTemplates, writeLabelTemplates, type LabelTemplates } from '../lib/labelTemplates'
+
+/** Label templates, persisted in localStorage on every change. */
+export function useLabelTemplates() {
+  const [labelTemplates, setState] = useState<LabelTemplates>(readLabelTemplates)
+
+  const setLabelTemplates = useCallback((templates: LabelTemplates) => {
+    writeLabelTemplates(templates)
+    setState(templates)
+  }, [])
+
+  return { labelTemplates, setLabelTemplates }
+}
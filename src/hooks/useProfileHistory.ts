@@ -7,6 +7,9 @@ export function useProfileHistory(initial: TabbedProfile) {
     index: 0,
   })
 
+  /** Profile as loaded (or created); the reference point for diffs. Undo history does not change it. */
+  const [baseline, setBaseline] = useState(initial)
+
   const profile = historyState.history[historyState.index]
 
   const mutateProfile = useCallback((updater: (p: TabbedProfile) => TabbedProfile) => {
@@ -20,6 +23,7 @@ export function useProfileHistory(initial: TabbedProfile) {
 
   const replaceProfile = useCallback((p: TabbedProfile) => {
     setHistoryState({ history: [p], index: 0 })
+    setBaseline(p)
   }, [])
 
   const undo = useCallback(() => {
@@ -35,5 +39,5 @@ export function useProfileHistory(initial: TabbedProfile) {
   const canUndo = historyState.index > 0
   const canRedo = historyState.index < historyState.history.length - 1
 
-  return { profile, mutateProfile, replaceProfile, undo, redo, canUndo, canRedo }
+  return { profile, baseline, mutateProfile, replaceProfile, undo, redo, canUndo, canRedo }
 }
@@ -0,0 +1,135 @@
+import { useState, useCallback, useEffect, useRef } from 'react'
+import { loadStations, type StationDataset } from '../lib/vacsStations'
+import { readCachedStations, readPreviousStations, writeCachedStations, writePreviousStations } from '../lib/stationCache'
+import { loadStationsFromDirectory, loadStationsFromZip } from '../lib/localDataset'
+import { readDatasetSource, sameDatasetSource, writeDatasetSource, type DatasetSource } from '../lib/datasetSource'
+
+/**
+ * Where the current dataset came from: the IndexedDB cache (not yet revalidated), GitHub,
+ * or a local folder/zip picked by the user.
+ */
+export type StationDatasetSource = 'cache' | 'github' | 'local'
+
+/** A local folder (file list from a directory picker) or a zip archive. */
+export type LocalDatasetInput = { kind: 'directory'; name: string; files: FileList } | { kind: 'zip'; file: File }
+
+/**
+ * Station dataset with stale-while-revalidate: the cached dataset is used as soon as it is read,
+ * then GitHub is checked in the background (one tree call; raw files only when the tree SHA changed).
+ * The GitHub repository/ref (`datasetSource`) is persisted; each source has its own cache entry.
+ * A local dataset replaces it until the next explicit GitHub reload and is never cached.
+ * `previousDataset` is the snapshot the current dataset replaced (older tree of the same source,
+ * or the GitHub dataset a local one replaced), for detecting renamed and removed stations.
+ */
+export function useStationDataset() {
+  const [datasetSource, setDatasetSourceState] = useState<DatasetSource>(readDatasetSource)
+  const [dataset, setDataset] = useState<StationDataset | null>(null)
+  const [previousDataset, setPreviousDataset] = useState<StationDataset | null>(null)
+  const [source, setSource] = useState<StationDatasetSource | null>(null)
+  const [localName, setLocalName] = useState<string | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const datasetRef = useRef<StationDataset | null>(null)
+  // Bumped on every load request so a slower earlier request cannot overwrite a newer result
+  const generationRef = useRef(0)
+
+  const run = useCallback(
+    (load: () => Promise<StationDataset>, onLoaded: (d: StationDataset, replaced: StationDataset | null) => void) => {
+      const generation = ++generationRef.current
+      setError(null)
+      setLoading(true)
+      load()
+        .then((d) => {
+          if (generation !== generationRef.current) return
+          const replaced = datasetRef.current
+          datasetRef.current = d
+          setDataset(d)
+          onLoaded(d, replaced)
+        })
+        .catch((err) => {
+          if (generation === generationRef.current) setError(err instanceof Error ? err.message : String(err))
+        })
+        .finally(() => {
+          if (generation === generationRef.current) setLoading(false)
+        })
+    },
+    []
+  )
+
+  const loadFromGitHub = useCallback(
+    (known: StationDataset | null) => {
+      run(
+        () => loadStations(datasetSource, known),
+        (d, replaced) => {
+          setSource('github')
+          setLocalName(null)
+          void writeCachedStations(d)
+          const sameSource = replaced?.source != null && d.source != null && sameDatasetSource(replaced.source, d.source)
+          if (replaced != null && sameSource && replaced.treeSha !== d.treeSha) {
+            setPreviousDataset(replaced)
+            void writePreviousStations(replaced)
+          }
+        }
+      )
+    },
+    [run, datasetSource]
+  )
+
+  // loadStations only reuses the current dataset when it is from the same source and tree
+  const reload = useCallback(() => loadFromGitHub(datasetRef.current), [loadFromGitHub])
+
+  const setDatasetSource = useCallback((next: DatasetSource) => {
+    writeDatasetSource(next)
+    setDatasetSourceState(next)
+  }, [])
+
+  const loadLocal = useCallback(
+    (input: LocalDatasetInput) => {
+      const name = input.kind === 'zip' ? input.file.name : input.name
+      run(
+        () => (input.kind === 'zip' ? loadStationsFromZip(input.file) : loadStationsFromDirectory(input.files)),
+        (_, replaced) => {
+          setSource('local')
+          setLocalName(name)
+          if (replaced != null) setPreviousDataset(replaced)
+        }
+      )
+    },
+    [run]
+  )
+
+  // On mount and whenever the source changes: show that source's cached copy, then revalidate
+  useEffect(() => {
+    let cancelled = false
+    const generation = ++generationRef.current
+    setError(null)
+    setLoading(true)
+    Promise.all([readCachedStations(datasetSource), readPreviousStations(datasetSource)]).then(([cached, previous]) => {
+      // A local dataset picked while the cache was being read wins
+      if (cancelled || generation !== generationRef.current) return
+      setPreviousDataset(previous)
+      datasetRef.current = cached
+      setDataset(cached)
+      setSource(cached != null ? 'cache' : null)
+      setLocalName(null)
+      loadFromGitHub(cached)
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [datasetSource, loadFromGitHub])
+
+  return {
+    dataset,
+    stations: dataset?.stations ?? null,
+    previousDataset,
+    source,
+    datasetSource,
+    setDatasetSource,
+    localName,
+    loading,
+    error,
+    reload,
+    loadLocal,
+  }
+}
@@ -0,0 +1,45 @@
+import type { DirectAccessKey } from '../types'
+import { MAX_LABEL_LINES, defaultStationLabel, type LabelGenerator } from './stationLabel'
+
+/** One edit applied to every selected key. */
+export type BulkKeyEdit =
+  | { kind: 'setStationId'; stationId: string }
+  /** Keys without a station ID are left alone. */
+  | { kind: 'prefixStationId'; prefix: string }
+  | { kind: 'suffixStationId'; suffix: string }
+  | { kind: 'setLabelLine'; line: number; text: string }
+  /** Label from the station ID; keys without a station ID keep theirs. */
+  | { kind: 'regenerateLabels' }
+  /** Empty subpage for keys that have none. */
+  | { kind: 'attachSubpage'; rows: number }
+  | { kind: 'removeSubpage' }
+
+export function applyBulkKeyEdit(
+  key: DirectAccessKey,
+  edit: BulkKeyEdit,
+  makeLabel: LabelGenerator = defaultStationLabel
+): DirectAccessKey {
+  const stationId = key.station_id?.trim() ?? ''
+  switch (edit.kind) {
+    case 'setStationId': {
+      const next = edit.stationId.trim()
+      return { ...key, station_id: next !== '' ? next : undefined }
+    }
+    case 'prefixStationId':
+      return stationId !== '' ? { ...key, station_id: `${edit.prefix}${stationId}` } : key
+    case 'suffixStationId':
+      return stationId !== '' ? { ...key, station_id: `${stationId}${edit.suffix}` } : key
+    case 'setLabelLine': {
+      const label = [...key.label]
+      while (label.length <= edit.line) label.push('')
+      label[edit.line] = edit.text
+      return { ...key, label: label.slice(0, MAX_LABEL_LINES) }
+    }
+    case 'regenerateLabels':
+      return stationId !== '' ? { ...key, label: makeLabel(stationId) } : key
+    case 'attachSubpage':
+      return key.page == null ? { ...key, page: { rows: edit.rows, keys: [] } } : key
+    case 'removeSubpage':
+      return key.page != null ? { ...key, page: undefined } : key
+  }
+}
@@ -0,0 +1,126 @@
+import type { TabbedProfile, DirectAccessKey, DirectAccessPage } from '../types'
+import type { StationEntry } from './vacsStations'
+import { forEachKey, type KeyLocation } from './profileWalk'
+
+/**
+ * Coverage simulation: given the positions that are online, which one answers a station.
+ * A station is answered by the first online position in its resolved controlled_by list
+ * (own list, then each parent's list), the same order the vacs client uses.
+ */
+
+export type StationCoverage =
+  | { status: 'covered'; controller: string }
+  | { status: 'uncovered' }
+  /** Station ID not in the dataset, so nothing is known about who controls it. */
+  | { status: 'unknown' }
+
+export interface KeyCoverage {
+  /** Null when the key has no station ID. */
+  station: StationCoverage | null
+  /** Keys with a station on the key's subpage (all levels) that no online position answers. */
+  uncoveredInSubpage: number
+}
+
+export interface TabCoverageSummary {
+  covered: number
+  uncovered: number
+  unknown: number
+}
+
+export interface UncoveredKey extends KeyLocation {
+  stationId: string
+}
+
+/** Resolve effective controlled_by: own list + each parent's list appended (recursive), then stable deduplication. */
+export function getResolvedControlledBy(entry: StationEntry, byId: Map<string, StationEntry>): string[] {
+  const seen = new Set<string>()
+  const result: string[] = []
+
+  function append(ids: string[]) {
+    for (const id of ids) {
+      if (!seen.has(id)) {
+        seen.add(id)
+        result.push(id)
+      }
+    }
+  }
+
+  function resolve(e: StationEntry, visited: Set<string>): void {
+    append(e.controlled_by ?? [])
+    if (e.parent_id && !visited.has(e.parent_id)) {
+      visited.add(e.parent_id)
+      const parent = byId.get(e.parent_id)
+      if (parent) resolve(parent, visited)
+    }
+  }
+
+  resolve(entry, new Set<string>())
+  return result
+}
+
+export function getStationCoverage(
+  stationId: string,
+  byId: Map<string, StationEntry>,
+  online: ReadonlySet<string>
+): StationCoverage {
+  const entry = byId.get(stationId)
+  if (entry == null) return { status: 'unknown' }
+  const controller = getResolvedControlledBy(entry, byId).find((id) => online.has(id))
+  return controller != null ? { status: 'covered', controller } : { status: 'uncovered' }
+}
+
+function stationIdOf(key: DirectAccessKey): string | null {
+  const id = key.station_id?.trim() ?? ''
+  return id === '' ? null : id
+}
+
+function countUncovered(page: DirectAccessPage, byId: Map<string, StationEntry>, online: ReadonlySet<string>): number {
+  let count = 0
+  for (const key of page.keys ?? []) {
+    const stationId = stationIdOf(key)
+    if (stationId != null && getStationCoverage(stationId, byId, online).status === 'uncovered') count++
+    if (key.page != null) count += countUncovered(key.page, byId, online)
+  }
+  return count
+}
+
+export function getKeyCoverage(
+  key: DirectAccessKey,
+  byId: Map<string, StationEntry>,
+  online: ReadonlySet<string>
+): KeyCoverage {
+  const stationId = stationIdOf(key)
+  return {
+    station: stationId != null ? getStationCoverage(stationId, byId, online) : null,
+    uncoveredInSubpage: key.page != null ? countUncovered(key.page, byId, online) : 0,
+  }
+}
+
+/** Per-tab counts over all keys with a station ID (subpages included), plus every uncovered key. */
+export function summarizeCoverage(
+  profile: TabbedProfile,
+  byId: Map<string, StationEntry>,
+  online: ReadonlySet<string>
+): { tabs: TabCoverageSummary[]; uncovered: UncoveredKey[] } {
+  const tabs = profile.tabs.map(() => ({ covered: 0, uncovered: 0, unknown: 0 }))
+  const uncovered: UncoveredKey[] = []
+  forEachKey(profile, (key, location) => {
+    const stationId = stationIdOf(key)
+    if (stationId == null) return
+    const { status } = getStationCoverage(stationId, byId, online)
+    tabs[location.tabIndex][status]++
+    if (status === 'uncovered') uncovered.push({ ...location, stationId })
+  })
+  return { tabs, uncovered }
+}
+
+/** Positions that can answer any station used in the profile, sorted; the choices for the simulator. */
+export function getProfilePositions(profile: TabbedProfile, byId: Map<string, StationEntry>): string[] {
+  const positions = new Set<string>()
+  forEachKey(profile, (key) => {
+    const stationId = stationIdOf(key)
+    const entry = stationId != null ? byId.get(stationId) : undefined
+    if (entry != null) for (const id of getResolvedControlledBy(entry, byId)) positions.add(id)
+  })
+  return Array.from(positions).sort((a, b) => a.localeCompare(b))
+}
@@ -0,0 +1,87 @@
+import type { StationEntry } from './vacsStations'
+import { levenshtein } from './stationCandidates'
+import { normalizeStationIdForMatch } from './stationIdMatch'
+import { stationIdPrefix } from './stationSearch'
+
+/**
+ * Compare two dataset snapshots: stations that disappeared, stations that appear renamed
+ * (a removed and an added station in the same FIR with the same parent/controlled_by and a similar id),
+ * and stations that are new.
+ */
+
+export interface StationRename {
+  from: StationEntry
+  to: StationEntry
+  /** Why the pair looks like a rename, e.g. ["same parent", "similar id"]. */
+  reasons: string[]
+}
+
+export interface DatasetComparison {
+  renamed: StationRename[]
+  /** Gone without an obvious successor. */
+  removed: StationEntry[]
+  /** New and not the target of a rename. */
+  added: StationEntry[]
+}
+
+/** 0..1, 1 = identical after normalization. */
+function idSimilarity(a: string, b: string): number {
+  const na = normalizeStationIdForMatch(a)
+  const nb = normalizeStationIdForMatch(b)
+  const length = Math.max(na.length, nb.length)
+  return length === 0 ? 1 : 1 - levenshtein(na, nb) / length
+}
+
+function sameList(a: string[] | undefined, b: string[] | undefined): boolean {
+  const x = a ?? []
+  const y = b ?? []
+  return x.length === y.length && x.every((id, i) => id === y[i])
+}
+
+const MIN_SIMILARITY_WITH_STRUCTURE = 0.5
+const MIN_SIMILARITY_ALONE = 0.75
+
+export function compareDatasets(before: StationEntry[], after: StationEntry[]): DatasetComparison {
+  const afterIds = new Set(after.map((s) => s.id))
+  const beforeIds = new Set(before.map((s) => s.id))
+  const gone = before.filter((s) => !afterIds.has(s.id))
+  const fresh = after.filter((s) => !beforeIds.has(s.id))
+
+  // Score every plausible (gone, fresh) pair, then take the best pairs greedily so each station is used once
+  const pairs: { from: StationEntry; to: StationEntry; score: number; reasons: string[] }[] = []
+  for (const from of gone) {
+    for (const to of fresh) {
+      if (from.fir !== to.fir) continue
+      const similarity = idSimilarity(from.id, to.id)
+      const reasons: string[] = []
+      if (from.parent_id != null && from.parent_id === to.parent_id) reasons.push('same parent')
+      if ((from.controlled_by?.length ?? 0) > 0 && sameList(from.controlled_by, to.controlled_by)) {
+        reasons.push('same controlled_by')
+      }
+      // Without a structural match, a different prefix (e.g. LOWG_TWR vs LOWK_TWR) is a different airport
+      if (reasons.length === 0 && stationIdPrefix(from.id) !== stationIdPrefix(to.id)) continue
+      const threshold = reasons.length > 0 ? MIN_SIMILARITY_WITH_STRUCTURE : MIN_SIMILARITY_ALONE
+      if (similarity < threshold) continue
+      reasons.push('similar id')
+      pairs.push({ from, to, score: similarity + reasons.length - 1, reasons })
+    }
+  }
+  pairs.sort((a, b) => b.score - a.score || a.from.id.localeCompare(b.from.id))
+
+  const renamedFrom = new Set<string>()
+  const renamedTo = new Set<string>()
+  const renamed: StationRename[] = []
+  for (const pair of pairs) {
+    if (renamedFrom.has(pair.from.id) || renamedTo.has(pair.to.id)) continue
+    renamedFrom.add(pair.from.id)
+    renamedTo.add(pair.to.id)
+    renamed.push({ from: pair.from, to: pair.to, reasons: pair.reasons })
+  }
+  renamed.sort((a, b) => a.from.id.localeCompare(b.from.id))
+
+  return {
+    renamed,
+    removed: gone.filter((s) => !renamedFrom.has(s.id)),
+    added: fresh.filter((s) => !renamedTo.has(s.id)),
+  }
+}
@@ -0,0 +1,64 @@
+/**
+ * Which vacs-data repository and ref the station dataset is loaded from, e.g. a fork
+ * or a PR branch that adds stations. The choice is persisted in localStorage.
+ */
+
+export interface DatasetSource {
+  owner: string
+  repo: string
+  /** Branch, tag or commit SHA. */
+  ref: string
+}
+
+export const DEFAULT_DATASET_SOURCE: DatasetSource = { owner: 'vacs-project', repo: 'vacs-data', ref: 'main' }
+
+const STORAGE_KEY = 'vacs-profileeditor.datasetSource'
+
+/** "owner/repo@ref", also used as the cache key. */
+export function formatDatasetSource(source: DatasetSource): string {
+  return `${source.owner}/${source.repo}@${source.ref}`
+}
+
+export function isDefaultDatasetSource(source: DatasetSource): boolean {
+  return formatDatasetSource(source) === formatDatasetSource(DEFAULT_DATASET_SOURCE)
+}
+
+export function sameDatasetSource(a: DatasetSource, b: DatasetSource): boolean {
+  return formatDatasetSource(a) === formatDatasetSource(b)
+}
+
+/** Trimmed source, or an error message when a part is missing or contains characters GitHub does not allow. */
+export function checkDatasetSource(source: DatasetSource): DatasetSource | string {
+  const owner = source.owner.trim()
+  const repo = source.repo.trim()
+  const ref = source.ref.trim()
+  if (owner === '' || repo === '' || ref === '') return 'Owner, repository and ref are required'
+  if (!/^[A-Za-z0-9-]+$/.test(owner)) return 'Owner may only contain letters, digits and hyphens'
+  if (!/^[A-Za-z0-9._-]+$/.test(repo)) return 'Repository may only contain letters, digits, ".", "_" and "-"'
+  if (/\s|\.\.|^\/|\/$/.test(ref)) return 'Ref must be a branch, tag or commit SHA'
+  return { owner, repo, ref }
+}
+
+export function readDatasetSource(): DatasetSource {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY)
+    if (raw == null) return DEFAULT_DATASET_SOURCE
+    const parsed = JSON.parse(raw) as Partial<DatasetSource>
+    if (typeof parsed.owner !== 'string' || typeof parsed.repo !== 'string' || typeof parsed.ref !== 'string') {
+      return DEFAULT_DATASET_SOURCE
+    }
+    const checked = checkDatasetSource(parsed as DatasetSource)
+    return typeof checked === 'string' ? DEFAULT_DATASET_SOURCE : checked
+  } catch {
+    return DEFAULT_DATASET_SOURCE
+  }
+}
+
+export function writeDatasetSource(source: DatasetSource): void {
+  try {
+    if (isDefaultDatasetSource(source)) localStorage.removeItem(STORAGE_KEY)
+    else localStorage.setItem(STORAGE_KEY, JSON.stringify(source))
+  } catch {
+    // Not persisted (private mode, storage disabled); the choice still applies to this session.
+  }
+}
@@ -0,0 +1,102 @@
+import {
+  closestCenter,
+  pointerWithin,
+  rectIntersection,
+  type Active,
+  type CollisionDetection,
+  type UniqueIdentifier,
+} from '@dnd-kit/core'
+
+/**
+ * Ids and collision detection for the editor's shared DndContext: sortable key cells (`key-<index>`)
+ * and tabs (`tab-<index>`), the key grid itself as a drop zone, station rows dragged in from the
+ * station browser, and the targets keys can be moved to: tabs, breadcrumb segments and the subpage
+ * of a key.
+ */
+
+export const KEY_GRID_DROP_ID = 'drop-key-grid'
+export const STATION_DRAG_PREFIX = 'station-'
+
+export interface StationDragData {
+  /** Every station being dragged (the browser selection, or just the grabbed row). */
+  stationIds: string[]
+}
+
+export function keySortableId(index: number): string {
+  return `key-${index}`
+}
+
+export function parseKeySortableId(id: UniqueIdentifier): number | null {
+  const match = /^key-(\d+)$/.exec(String(id))
+  return match ? Number(match[1]) : null
+}
+
+export function tabSortableId(index: number): string {
+  return `tab-${index}`
+}
+
+export function parseTabSortableId(id: UniqueIdentifier): number | null {
+  const match = /^tab-(\d+)$/.exec(String(id))
+  return match ? Number(match[1]) : null
+}
+
+/** Breadcrumb segment at `depth` (0 = the tab page). */
+export function breadcrumbDropId(depth: number): string {
+  return `drop-crumb-${depth}`
+}
+
+export function parseBreadcrumbDropId(id: UniqueIdentifier): number | null {
+  const match = /^drop-crumb-(\d+)$/.exec(String(id))
+  return match ? Number(match[1]) : null
+}
+
+/** Middle of the key cell at `index`, for keys with a subpage: dropping there moves keys into it. */
+export function subpageDropId(index: number): string {
+  return `drop-subpage-${index}`
+}
+
+export function parseSubpageDropId(id: UniqueIdentifier): number | null {
+  const match = /^drop-subpage-(\d+)$/.exec(String(id))
+  return match ? Number(match[1]) : null
+}
+
+function isKeyMoveTarget(id: UniqueIdentifier): boolean {
+  return parseTabSortableId(id) != null || parseBreadcrumbDropId(id) != null || parseSubpageDropId(id) != null
+}
+
+/** Station IDs carried by a station row drag; null for any other draggable. */
+export function getStationDragIds(active: Active | null): string[] | null {
+  if (active == null || !String(active.id).startsWith(STATION_DRAG_PREFIX)) return null
+  return (active.data.current as StationDragData | undefined)?.stationIds ?? null
+}
+
+/**
+ * Station drags: the key cell under the pointer, else the grid (append).
+ * Tab drags: the closest tab.
+ * Key drags: a tab, breadcrumb segment or subpage drop zone under the pointer (move there), else the
+ * closest key cell (reorder).
+ */
+export const editorCollisionDetection: CollisionDetection = (args) => {
+  if (getStationDragIds(args.active) != null) {
+    const hits = args.pointerCoordinates != null ? pointerWithin(args) : rectIntersection(args)
+    const keyHits = hits.filter((c) => parseKeySortableId(c.id) != null)
+    return keyHits.length > 0 ? keyHits : hits.filter((c) => c.id === KEY_GRID_DROP_ID)
+  }
+  if (parseTabSortableId(args.active.id) != null) {
+    return closestCenter({
+      ...args,
+      droppableContainers: args.droppableContainers.filter((c) => parseTabSortableId(c.id) != null),
+    })
+  }
+  if (args.pointerCoordinates != null) {
+    const moveHits = pointerWithin({
+      ...args,
+      droppableContainers: args.droppableContainers.filter((c) => isKeyMoveTarget(c.id)),
+    })
+    if (moveHits.length > 0) return moveHits
+  }
+  return closestCenter({
+    ...args,
+    droppableContainers: args.droppableContainers.filter((c) => parseKeySortableId(c.id) != null),
+  })
+}
@@ -0,0 +1,109 @@
+import type { DirectAccessKey, TabbedProfile } from '../types'
+import { forEachKey, mapKeys, type KeyLocation } from './profileWalk'
+
+/**
+ * Find and replace over key labels and station IDs. Matches are computed per field value
+ * (each label line, the station ID); the preview and the apply use the same replacement, so
+ * what is listed is exactly what changes.
+ */
+
+export type FindScope = 'page' | 'tab' | 'profile'
+
+export interface FindOptions {
+  query: string
+  replacement: string
+  /** Treat `query` as a regular expression; `replacement` may then use $1, $<name>, $&. */
+  regex: boolean
+  matchCase: boolean
+  labels: boolean
+  stationIds: boolean
+  scope: FindScope
+  /** Current tab and page, for the page and tab scopes. */
+  tabIndex: number
+  path: number[]
+}
+
+export interface FindMatch extends KeyLocation {
+  field: 'label' | 'station_id'
+  /** Label line index, for label matches. */
+  line?: number
+  before: string
+  after: string
+}
+
+/** Compiled global pattern for the options, or an error message for an invalid regular expression. */
+export function compileFindPattern(options: Pick<FindOptions, 'query' | 'regex' | 'matchCase'>): RegExp | string {
+  const source = options.regex ? options.query : options.query.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+  try {
+    return new RegExp(source, options.matchCase ? 'g' : 'gi')
+  } catch (err) {
+    return err instanceof Error ? err.message : 'Invalid regular expression'
+  }
+}
+
+function inScope(location: KeyLocation, options: FindOptions): boolean {
+  if (options.scope === 'profile') return true
+  if (location.tabIndex !== options.tabIndex) return false
+  if (options.scope === 'tab') return true
+  return location.path.length === options.path.length && location.path.every((k, i) => k === options.path[i])
+}
+
+function replaceValue(value: string, pattern: RegExp, options: FindOptions): string {
+  pattern.lastIndex = 0
+  // Plain mode inserts the replacement literally ("$" has no special meaning)
+  return options.regex ? value.replace(pattern, options.replacement) : value.replace(pattern, () => options.replacement)
+}
+
+function hasMatch(value: string, pattern: RegExp): boolean {
+  pattern.lastIndex = 0
+  return pattern.test(value)
+}
+
+/** Field-level changes for one key; unchanged values (e.g. a regex replacing a match with itself) are skipped. */
+function keyMatches(key: DirectAccessKey, location: KeyLocation, pattern: RegExp, options: FindOptions): FindMatch[] {
+  const matches: FindMatch[] = []
+  if (options.labels) {
+    key.label.forEach((before, line) => {
+      if (!hasMatch(before, pattern)) return
+      const after = replaceValue(before, pattern, options)
+      if (after !== before) matches.push({ ...location, field: 'label', line, before, after })
+    })
+  }
+  const stationId = key.station_id
+  if (options.stationIds && stationId != null && hasMatch(stationId, pattern)) {
+    const after = replaceValue(stationId, pattern, options).trim()
+    if (after !== stationId) matches.push({ ...location, field: 'station_id', before: stationId, after })
+  }
+  return matches
+}
+
+/** Every change a replace would make, in profile order; an error message for an invalid pattern. */
+export function findMatches(profile: TabbedProfile, options: FindOptions): FindMatch[] | string {
+  if (options.query === '') return []
+  const pattern = compileFindPattern(options)
+  if (typeof pattern === 'string') return pattern
+  const matches: FindMatch[] = []
+  forEachKey(profile, (key, location) => {
+    if (inScope(location, options)) matches.push(...keyMatches(key, location, pattern, options))
+  })
+  return matches
+}
+
+/** Profile with every match of `findMatches` replaced; a station ID replaced by nothing is removed. */
+export function replaceAll(profile: TabbedProfile, options: FindOptions): TabbedProfile {
+  if (options.query === '') return profile
+  const pattern = compileFindPattern(options)
+  if (typeof pattern === 'string') return profile
+  return mapKeys(profile, (key, location) => {
+    if (!inScope(location, options)) return key
+    const matches = keyMatches(key, location, pattern, options)
+    if (matches.length === 0) return key
+    const label = [...key.label]
+    let stationId = key.station_id
+    for (const match of matches) {
+      if (match.field === 'label' && match.line != null) label[match.line] = match.after
+      else if (match.field === 'station_id') stationId = match.after !== '' ? match.after : undefined
+    }
+    return { ...key, label, station_id: stationId }
+  })
+}
@@ -0,0 +1,148 @@
+/**
+ * Deterministic JSON formatter reproducing Prettier's `json` parser output for
+ * JSON.stringify-style input (no comments, every non-empty object on multiple lines).
+ *
+ * Rules, as Prettier applies them:
+ * - Non-empty objects are always expanded, one property per line.
+ * - Arrays go on one line when they fit in `printWidth` (including the text that
+ *   follows on the same line, i.e. a trailing comma); otherwise one element per line.
+ * - Arrays of 2+ objects/arrays that each have 2+ entries always break.
+ * - Arrays of numbers that do not fit are filled: as many per line as fit.
+ */
+
+export interface FormatJsonOptions {
+  printWidth?: number
+  tabWidth?: number
+}
+
+type Json = null | boolean | number | string | Json[] | { [key: string]: Json }
+
+interface Context {
+  printWidth: number
+  tabWidth: number
+}
+
+/** Display width as Prettier measures it: wide (CJK/fullwidth/emoji) = 2, combining marks = 0. */
+function stringWidth(text: string): number {
+  let width = 0
+  for (const ch of text) {
+    const cp = ch.codePointAt(0)!
+    if ((cp >= 0x300 && cp <= 0x36f) || (cp >= 0xfe00 && cp <= 0xfe0f) || cp === 0x200d) continue
+    width +=
+      (cp >= 0x1100 && cp <= 0x115f) ||
+      (cp >= 0x2e80 && cp <= 0xa4cf) ||
+      (cp >= 0xac00 && cp <= 0xd7a3) ||
+      (cp >= 0xf900 && cp <= 0xfaff) ||
+      (cp >= 0xfe30 && cp <= 0xfe4f) ||
+      (cp >= 0xff00 && cp <= 0xff60) ||
+      (cp >= 0xffe0 && cp <= 0xffe6) ||
+      (cp >= 0x1f300 && cp <= 0x1f64f) ||
+      (cp >= 0x1f900 && cp <= 0x1f9ff) ||
+      (cp >= 0x20000 && cp <= 0x3fffd)
+        ? 2
+        : 1
+  }
+  return width
+}
+
+/** Prettier number printing: JSON.stringify output only differs in the exponent sign. */
+function printNumber(n: number): string {
+  return JSON.stringify(n).toLowerCase().replace(/e\+/, 'e')
+}
+
+function isObject(value: Json): value is { [key: string]: Json } {
+  return value != null && typeof value === 'object' && !Array.isArray(value)
+}
+
+function entryCount(value: Json): number {
+  if (Array.isArray(value)) return value.length
+  if (isObject(value)) return Object.keys(value).length
+  return 0
+}
+
+/** Flat (single-line) form, or null when the value can never be flat (contains a non-empty object). */
+function printFlat(value: Json): string | null {
+  if (isObject(value)) return Object.keys(value).length === 0 ? '{}' : null
+  if (Array.isArray(value)) {
+    if (value.length === 0) return '[]'
+    if (mustBreakArray(value)) return null
+    const parts: string[] = []
+    for (const item of value) {
+      const flat = printFlat(item)
+      if (flat == null) return null
+      parts.push(flat)
+    }
+    return `[${parts.join(', ')}]`
+  }
+  if (typeof value === 'number') return printNumber(value)
+  return JSON.stringify(value)
+}
+
+function mustBreakArray(items: Json[]): boolean {
+  if (items.length < 2) return false
+  const first = items[0]
+  const firstIsArray = Array.isArray(first)
+  return items.every(
+    (item) => (isObject(item) || Array.isArray(item)) && Array.isArray(item) === firstIsArray && entryCount(item) > 1
+  )
+}
+
+/**
+ * Print `value` starting at column `column` (already indented to `indent`);
+ * `trailing` is the text that follows on the same line (e.g. ",").
+ */
+function printValue(value: Json, indent: number, column: number, trailing: string, ctx: Context): string {
+  if (isObject(value)) {
+    const entries = Object.entries(value)
+    if (entries.length === 0) return '{}'
+    const inner = ' '.repeat(indent + ctx.tabWidth)
+    const lines = entries.map(([key, item], i) => {
+      const prefix = `${JSON.stringify(key)}: `
+      const comma = i < entries.length - 1 ? ',' : ''
+      return inner + prefix + printValue(item, indent + ctx.tabWidth, indent + ctx.tabWidth + stringWidth(prefix), comma, ctx) + comma
+    })
+    return `{\n${lines.join('\n')}\n${' '.repeat(indent)}}`
+  }
+  if (Array.isArray(value)) {
+    if (value.length === 0) return '[]'
+    const flat = printFlat(value)
+    if (flat != null && column + stringWidth(flat) + stringWidth(trailing) <= ctx.printWidth) return flat
+    const innerIndent = indent + ctx.tabWidth
+    const inner = ' '.repeat(innerIndent)
+    if (value.every((item) => typeof item === 'number')) {
+      return `[\n${fillNumbers(value as number[], innerIndent, ctx)}\n${' '.repeat(indent)}]`
+    }
+    const lines = value.map((item, i) => {
+      const comma = i < value.length - 1 ? ',' : ''
+      return inner + printValue(item, innerIndent, innerIndent, comma, ctx) + comma
+    })
+    return `[\n${lines.join('\n')}\n${' '.repeat(indent)}]`
+  }
+  return printFlat(value)!
+}
+
+function fillNumbers(items: number[], indent: number, ctx: Context): string {
+  const lines: string[] = []
+  let line = ''
+  items.forEach((item, i) => {
+    const part = printNumber(item) + (i < items.length - 1 ? ',' : '')
+    if (line === '') line = part
+    else if (indent + stringWidth(line) + 1 + stringWidth(part) <= ctx.printWidth) line += ` ${part}`
+    else {
+      lines.push(line)
+      line = part
+    }
+  })
+  lines.push(line)
+  return lines.map((l) => ' '.repeat(indent) + l).join('\n')
+}
+
+/** Drop undefined/function values the way JSON.stringify does, so any plain object can be passed in. */
+function toJson(value: unknown): Json {
+  return JSON.parse(JSON.stringify(value)) as Json
+}
+
+export function formatJson(value: unknown, options: FormatJsonOptions = {}): string {
+  const ctx: Context = { printWidth: options.printWidth ?? 80, tabWidth: options.tabWidth ?? 2 }
+  return `${printValue(toJson(value), 0, 0, '', ctx)}\n`
+}
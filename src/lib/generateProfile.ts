@@ -0,0 +1,155 @@
+import type { DirectAccessKey, DirectAccessPage, TabbedProfile } from '../types'
+import type { StationEntry } from './vacsStations'
+import { buildStationTree, type StationTreeNode } from './stationTree'
+import { createStationKey, type LabelGenerator } from './stationLabel'
+import { stationIdPrefix } from './stationSearch'
+
+/**
+ * Starter profile for one FIR from the dataset: a CTR tab with the enroute sectors, an APP tab
+ * with approach/departure stations and a TWR tab with one key per airport whose subpage holds
+ * that airport's TWR/GND/DEL/... stations. Within a page, stations follow the parent_id tree
+ * (parents before their children) and a parent with its children starts a new column when it
+ * would otherwise be split across two.
+ */
+
+export interface GenerateProfileOptions {
+  /** Rows per page to start from; raised where the keys would not fit into the 8 grid columns. */
+  rows?: number
+  /** Key labels; defaults to the station ID split on "_". */
+  makeLabel?: LabelGenerator
+}
+
+export interface GeneratedProfileSummary {
+  centers: number
+  approaches: number
+  airports: number
+  /** Stations placed on airport subpages (or directly, for single-station airports). */
+  airportStations: number
+}
+
+/** Columns the vacs client shows per page (see lintProfile). */
+const GRID_COLUMNS = 8
+const DEFAULT_ROWS = 4
+
+const CENTER_SUFFIXES = new Set(['CTR', 'FSS'])
+const APPROACH_SUFFIXES = new Set(['APP', 'DEP'])
+
+type StationCategory = 'center' | 'approach' | 'airport'
+
+function stationCategory(id: string): StationCategory {
+  const parts = id.toUpperCase().split('_')
+  const suffix = parts[parts.length - 1]
+  if (CENTER_SUFFIXES.has(suffix)) return 'center'
+  if (APPROACH_SUFFIXES.has(suffix)) return 'approach'
+  return 'airport'
+}
+
+/**
+ * Stations of one category in tree order, grouped by their topmost ancestor of the same category,
+ * so e.g. LOWW_TWR is followed by LOWW_GND and LOWW_DEL when those have it as parent.
+ */
+function groupByTree(roots: StationTreeNode[], include: (station: StationEntry) => boolean): StationEntry[][] {
+  const groups: StationEntry[][] = []
+  const collect = (node: StationTreeNode, group: StationEntry[] | null) => {
+    let current = group
+    if (include(node.station)) {
+      if (current == null) {
+        current = []
+        groups.push(current)
+      }
+      current.push(node.station)
+    }
+    for (const child of node.children) collect(child, current)
+  }
+  for (const root of roots) collect(root, null)
+  return groups
+}
+
+/** Lay out groups column by column (the grid fills columns first); empty keys pad a group to the next column. */
+function layoutGroups(groups: DirectAccessKey[][], rows: number): DirectAccessKey[] {
+  const keys: DirectAccessKey[] = []
+  for (const group of groups) {
+    const used = keys.length % rows
+    if (used > 0 && group.length <= rows && used + group.length > rows) {
+      for (let i = used; i < rows; i++) keys.push({ label: [] })
+    }
+    keys.push(...group)
+  }
+  return keys
+}
+
+/** Page for the given groups with the fewest rows (at least `minRows`) that fits into the grid columns. */
+function buildPage(groups: DirectAccessKey[][], minRows: number): DirectAccessPage {
+  const total = groups.reduce((n, g) => n + g.length, 0)
+  for (let rows = minRows; ; rows++) {
+    const keys = layoutGroups(groups, rows)
+    if (keys.length <= rows * GRID_COLUMNS || rows >= total) return { rows, keys }
+  }
+}
+
+function firStations(fir: string, stations: StationEntry[]): StationEntry[] {
+  return stations.filter((s) => s.fir === fir)
+}
+
+/** FIRs in the dataset, sorted, for picking the generator input. */
+export function getDatasetFirs(stations: StationEntry[]): string[] {
+  return Array.from(new Set(stations.map((s) => s.fir))).sort((a, b) => a.localeCompare(b))
+}
+
+/** Airports of `stations` (by station id prefix), each with its stations in tree order. */
+function airportGroups(roots: StationTreeNode[]): Map<string, StationEntry[]> {
+  const airports = new Map<string, StationEntry[]>()
+  for (const group of groupByTree(roots, (s) => stationCategory(s.id) === 'airport')) {
+    for (const station of group) {
+      const icao = stationIdPrefix(station.id)
+      const list = airports.get(icao)
+      if (list) list.push(station)
+      else airports.set(icao, [station])
+    }
+  }
+  return new Map([...airports].sort(([a], [b]) => a.localeCompare(b)))
+}
+
+export function summarizeGeneratedProfile(fir: string, stations: StationEntry[]): GeneratedProfileSummary {
+  const own = firStations(fir, stations)
+  const airports = new Set<string>()
+  let centers = 0
+  let approaches = 0
+  let airportStations = 0
+  for (const s of own) {
+    const category = stationCategory(s.id)
+    if (category === 'center') centers++
+    else if (category === 'approach') approaches++
+    else {
+      airportStations++
+      airports.add(stationIdPrefix(s.id))
+    }
+  }
+  return { centers, approaches, airports: airports.size, airportStations }
+}
+
+/** Build the starter profile for `fir`; tabs without stations are left out (an empty FIR gives one empty tab). */
+export function generateProfile(fir: string, stations: StationEntry[], options: GenerateProfileOptions = {}): TabbedProfile {
+  const rows = Math.max(1, Math.floor(options.rows ?? DEFAULT_ROWS))
+  const tree = buildStationTree(firStations(fir, stations))
+  const roots = tree[0]?.roots ?? []
+  const toKey = (station: StationEntry) => createStationKey(station, options.makeLabel)
+  const toKeys = (group: StationEntry[]) => group.map(toKey)
+
+  const tabs: TabbedProfile['tabs'] = []
+  const centers = groupByTree(roots, (s) => stationCategory(s.id) === 'center')
+  if (centers.length > 0) tabs.push({ label: ['CTR'], page: buildPage(centers.map(toKeys), rows) })
+  const approaches = groupByTree(roots, (s) => stationCategory(s.id) === 'approach')
+  if (approaches.length > 0) tabs.push({ label: ['APP'], page: buildPage(approaches.map(toKeys), rows) })
+
+  const airportKeys: DirectAccessKey[] = []
+  for (const [icao, airportStations] of airportGroups(roots)) {
+    // A single station needs no subpage of its own
+    if (airportStations.length === 1) airportKeys.push(toKey(airportStations[0]))
+    else airportKeys.push({ label: options.makeLabel?.(icao) ?? [icao], page: buildPage([toKeys(airportStations)], rows) })
+  }
+  if (airportKeys.length > 0) tabs.push({ label: ['TWR'], page: buildPage([airportKeys], rows) })
+
+  if (tabs.length === 0) tabs.push({ label: ['Tab 1'], page: { rows, keys: [] } })
+  return { id: fir, type: 'Tabbed', tabs }
+}
@@ -0,0 +1,99 @@
+import { MAX_LABEL_LINES } from './stationLabel'
+
+/**
+ * Rule-based key labels from station IDs: the first part of the ID (airport or FIR) is replaced
+ * by a configured name, the last part (station type) may be renamed or dropped, and the parts
+ * are spread over the label lines ("LOWW_TWR" → ["WIEN", "TWR"], "EDGG_B_CTR" → ["LANGEN", "B", "CTR"]).
+ * The templates are persisted in localStorage.
+ */
+
+export interface LabelTemplates {
+  /** Station ID prefix → name on the first line, e.g. LOWW → WIEN. */
+  prefixNames: Record<string, string>
+  /** Station type (last ID part) → text on the last line, e.g. DEL → CLR. */
+  suffixNames: Record<string, string>
+  /** Station types left off the label, e.g. CTR on a page that only lists sectors. */
+  hiddenSuffixes: string[]
+  /** Fill the label when a station suggestion is picked in the key editor. */
+  autoFill: boolean
+}
+
+export const DEFAULT_LABEL_TEMPLATES: LabelTemplates = {
+  prefixNames: {},
+  suffixNames: {},
+  hiddenSuffixes: [],
+  autoFill: true,
+}
+
+const STORAGE_KEY = 'vacs-profileeditor.labelTemplates'
+
+/**
+ * Label for a station ID. With more parts than label lines, the middle parts share the second
+ * line so the name stays first and the station type last.
+ */
+export function generateLabel(stationId: string, templates: LabelTemplates): string[] {
+  const parts = stationId.trim().split('_').filter(Boolean)
+  if (parts.length === 0) return []
+  const name = templates.prefixNames[parts[0].toUpperCase()] ?? parts[0]
+  if (parts.length === 1) return [name]
+  const suffix = parts[parts.length - 1].toUpperCase()
+  const middle = parts.slice(1, -1)
+  const last = templates.hiddenSuffixes.includes(suffix) ? [] : [templates.suffixNames[suffix] ?? parts[parts.length - 1]]
+  const lines = [name, ...middle, ...last]
+  if (lines.length <= MAX_LABEL_LINES) return lines
+  return [name, middle.join(' '), ...last]
+}
+
+/** "KEY = value" per line; keys are upper-cased, lines without "=" or with an empty side are skipped. */
+export function parseNameMap(text: string): Record<string, string> {
+  const map: Record<string, string> = {}
+  for (const line of text.split('\n')) {
+    const eq = line.indexOf('=')
+    if (eq < 0) continue
+    const key = line.slice(0, eq).trim().toUpperCase()
+    const value = line.slice(eq + 1).trim()
+    if (key !== '' && value !== '') map[key] = value
+  }
+  return map
+}
+
+export function formatNameMap(map: Record<string, string>): string {
+  return Object.entries(map)
+    .map(([key, value]) => `${key} = ${value}`)
+    .join('\n')
+}
+
+function isNameMap(value: unknown): value is Record<string, string> {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    !Array.isArray(value) &&
+    Object.values(value).every((v) => typeof v === 'string')
+  )
+}
+
+export function readLabelTemplates(): LabelTemplates {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY)
+    if (raw == null) return DEFAULT_LABEL_TEMPLATES
+    const parsed = JSON.parse(raw) as Partial<LabelTemplates>
+    return {
+      prefixNames: isNameMap(parsed.prefixNames) ? parsed.prefixNames : {},
+      suffixNames: isNameMap(parsed.suffixNames) ? parsed.suffixNames : {},
+      hiddenSuffixes: Array.isArray(parsed.hiddenSuffixes)
+        ? parsed.hiddenSuffixes.filter((s): s is string => typeof s === 'string')
+        : [],
+      autoFill: typeof parsed.autoFill === 'boolean' ? parsed.autoFill : DEFAULT_LABEL_TEMPLATES.autoFill,
+    }
+  } catch {
+    return DEFAULT_LABEL_TEMPLATES
+  }
+}
+
+export function writeLabelTemplates(templates: LabelTemplates): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(templates))
+  } catch {
+    // Not persisted (private mode, storage disabled); the templates still apply to this session.
+  }
+}
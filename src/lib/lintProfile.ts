@@ -0,0 +1,155 @@
+import type { TabbedProfile, DirectAccessPage } from '../types'
+import type { StationEntry } from './vacsStations'
+import { forEachPage } from './profileWalk'
+import { hasStationIdMismatch } from './stationIdMatch'
+
+export type ProblemSeverity = 'error' | 'warning' | 'info'
+
+export interface LintProblem {
+  rule: string
+  severity: ProblemSeverity
+  message: string
+  tabIndex: number
+  /** Subpage path of the page the problem is on. */
+  path: number[]
+  /** Offending key on that page; absent for page-level problems. */
+  keyIndex?: number
+}
+
+export interface LintOptions {
+  /** Loaded dataset; station checks are skipped while it is null or empty. */
+  stations?: StationEntry[] | null
+  /** Deepest allowed subpage nesting (tab page = 0). */
+  maxSubpageDepth?: number
+}
+
+/** Columns shown by the vacs client per page. */
+export const PAGE_COLUMNS = 8
+export const DEFAULT_MAX_SUBPAGE_DEPTH = 2
+
+interface PageContext {
+  page: DirectAccessPage
+  tabIndex: number
+  path: number[]
+  options: Required<LintOptions>
+}
+
+type Report = (message: string, keyIndex?: number) => void
+
+interface LintRule {
+  id: string
+  severity: ProblemSeverity
+  check: (ctx: PageContext, report: Report) => void
+}
+
+const hasText = (label: string[]) => label.some((l) => l.trim() !== '')
+const hasStation = (stationId: string | undefined) => (stationId?.trim() ?? '') !== ''
+
+export const LINT_RULES: LintRule[] = [
+  {
+    id: 'page-overflow',
+    severity: 'error',
+    check: ({ page }, report) => {
+      const keys = page.keys ?? []
+      const capacity = page.rows * PAGE_COLUMNS
+      if (keys.length > capacity) {
+        report(`${keys.length} keys do not fit in ${page.rows} rows × ${PAGE_COLUMNS} columns (${capacity})`, capacity)
+      }
+    },
+  },
+  {
+    id: 'duplicate-station',
+    severity: 'warning',
+    check: ({ page }, report) => {
+      const firstIndex = new Map<string, number>()
+      ;(page.keys ?? []).forEach((key, i) => {
+        const sid = key.station_id?.trim() ?? ''
+        if (sid === '') return
+        const first = firstIndex.get(sid)
+        if (first == null) firstIndex.set(sid, i)
+        else report(`Station ${sid} is also on key ${first + 1} of this page`, i)
+      })
+    },
+  },
+  {
+    id: 'unknown-station',
+    severity: 'warning',
+    check: ({ page, options }, report) => {
+      ;(page.keys ?? []).forEach((key, i) => {
+        if (hasStationIdMismatch(key.station_id, options.stations)) {
+          report(`Station ${key.station_id} not found in VACS dataset`, i)
+        }
+      })
+    },
+  },
+  {
+    id: 'station-without-label',
+    severity: 'warning',
+    check: ({ page }, report) => {
+      ;(page.keys ?? []).forEach((key, i) => {
+        if (hasStation(key.station_id) && !hasText(key.label)) report(`Station ${key.station_id} has no label`, i)
+      })
+    },
+  },
+  {
+    id: 'label-without-station',
+    severity: 'info',
+    check: ({ page }, report) => {
+      ;(page.keys ?? []).forEach((key, i) => {
+        if (hasText(key.label) && !hasStation(key.station_id) && key.page == null) {
+          report(`"${key.label.join(' ').trim()}" has no station ID`, i)
+        }
+      })
+    },
+  },
+  {
+    id: 'empty-subpage',
+    severity: 'warning',
+    check: ({ page }, report) => {
+      ;(page.keys ?? []).forEach((key, i) => {
+        if (key.page != null && key.page.client_page == null && (key.page.keys ?? []).length === 0) {
+          report('Subpage has no keys', i)
+        }
+      })
+    },
+  },
+  {
+    id: 'subpage-too-deep',
+    severity: 'warning',
+    check: ({ page, path, options }, report) => {
+      if (path.length + 1 <= options.maxSubpageDepth) return
+      ;(page.keys ?? []).forEach((key, i) => {
+        if (key.page != null) report(`Subpage is nested ${path.length + 1} levels deep (max ${options.maxSubpageDepth})`, i)
+      })
+    },
+  },
+  {
+    id: 'client-page-empty-include',
+    severity: 'info',
+    check: ({ page }, report) => {
+      if (page.client_page != null && (page.client_page.include ?? []).every((p) => p.trim() === '')) {
+        report('Client page has no include patterns')
+      }
+    },
+  },
+]
+
+const SEVERITY_ORDER: Record<ProblemSeverity, number> = { error: 0, warning: 1, info: 2 }
+
+/** Run every rule over every page; results are sorted by severity, then by position in the profile. */
+export function lintProfile(profile: TabbedProfile, options: LintOptions = {}): LintProblem[] {
+  const resolved: Required<LintOptions> = {
+    stations: options.stations ?? null,
+    maxSubpageDepth: options.maxSubpageDepth ?? DEFAULT_MAX_SUBPAGE_DEPTH,
+  }
+  const problems: LintProblem[] = []
+  forEachPage(profile, (page, tabIndex, path) => {
+    for (const rule of LINT_RULES) {
+      rule.check({ page, tabIndex, path, options: resolved }, (message, keyIndex) => {
+        problems.push({ rule: rule.id, severity: rule.severity, message, tabIndex, path, keyIndex })
+      })
+    }
+  })
+  // Array.prototype.sort is stable, so walk order is kept within a severity.
+  return problems.sort((a, b) => SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity])
+}
@@ -0,0 +1,37 @@
+import { unzipSync } from 'fflate'
+import { loadStationsFromFiles, type StationDataset } from './vacsStations'
+
+/**
+ * Read a station dataset from a local vacs-data checkout: either the files of a
+ * directory picker (`<input webkitdirectory>`) or a zip of the repo / `dataset/` tree.
+ * Only station and position files are read; everything else in the folder or archive is ignored.
+ */
+
+const DATASET_FILE_NAME_RE = /(?:^|[\\/])(?:stations|positions)\.(?:toml|json)$/
+
+function relativePath(file: File): string {
+  return file.webkitRelativePath || file.name
+}
+
+export async function loadStationsFromDirectory(files: FileList | File[]): Promise<StationDataset> {
+  const datasetFiles = Array.from(files).filter((file) => DATASET_FILE_NAME_RE.test(relativePath(file)))
+  const entries = await Promise.all(
+    datasetFiles.map(async (file) => ({ path: relativePath(file), text: await file.text() }))
+  )
+  return loadStationsFromFiles(entries)
+}
+
+export async function loadStationsFromZip(file: File): Promise<StationDataset> {
+  let unzipped: Record<string, Uint8Array>
+  try {
+    unzipped = unzipSync(new Uint8Array(await file.arrayBuffer()), {
+      filter: (entry) => DATASET_FILE_NAME_RE.test(entry.name),
+    })
+  } catch (err) {
+    throw new Error(`Could not read ${file.name}: ${err instanceof Error ? err.message : String(err)}`)
+  }
+  const decoder = new TextDecoder()
+  return loadStationsFromFiles(
+    Object.entries(unzipped).map(([path, data]) => ({ path, text: decoder.decode(data) }))
+  )
+}
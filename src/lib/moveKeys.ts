@@ -0,0 +1,117 @@
+import type { DirectAccessKey, DirectAccessPage, TabbedProfile } from '../types'
+
+/** A page in the profile: a tab's page (`path` empty) or a subpage reached through key indices. */
+export interface PageLocation {
+  tabIndex: number
+  path: number[]
+}
+
+function getPage(profile: TabbedProfile, location: PageLocation): DirectAccessPage | null {
+  let page: DirectAccessPage | undefined = profile.tabs[location.tabIndex]?.page
+  for (const keyIndex of location.path) page = page?.keys?.[keyIndex]?.page
+  return page ?? null
+}
+
+function updatePage(
+  profile: TabbedProfile,
+  location: PageLocation,
+  update: (page: DirectAccessPage) => DirectAccessPage
+): TabbedProfile {
+  const apply = (page: DirectAccessPage, depth: number): DirectAccessPage => {
+    if (depth === location.path.length) return update(page)
+    const keyIndex = location.path[depth]
+    const keys = [...(page.keys ?? [])]
+    keys[keyIndex] = { ...keys[keyIndex], page: apply(keys[keyIndex].page!, depth + 1) }
+    return { ...page, keys }
+  }
+  return {
+    ...profile,
+    tabs: profile.tabs.map((tab, i) => (i === location.tabIndex ? { ...tab, page: apply(tab.page, 0) } : tab)),
+  }
+}
+
+function isPrefix(prefix: number[], path: number[]): boolean {
+  return prefix.length <= path.length && prefix.every((v, i) => v === path[i])
+}
+
+/**
+ * Move the keys at `keyIndices` on the `from` page to the end of the `to` page (another tab, a page
+ * above, or the subpage of a sibling key). Null when there is nothing to move or the move is not
+ * possible: same page, a client page on either side, or a key moved into its own subpage.
+ */
+export function moveKeysToPage(
+  profile: TabbedProfile,
+  from: PageLocation,
+  keyIndices: number[],
+  to: PageLocation
+): TabbedProfile | null {
+  const source = getPage(profile, from)
+  const target = getPage(profile, to)
+  if (source?.keys == null || target == null || target.client_page != null) return null
+  const sameTab = from.tabIndex === to.tabIndex
+  if (sameTab && from.path.length === to.path.length && isPrefix(from.path, to.path)) return null
+
+  const indices = [...new Set(keyIndices)].filter((i) => i >= 0 && i < source.keys!.length).sort((a, b) => a - b)
+  if (indices.length === 0) return null
+
+  // A target below the source page goes through one of its keys, whose index shifts as keys are removed
+  let targetPath = to.path
+  if (sameTab && isPrefix(from.path, to.path)) {
+    const via = to.path[from.path.length]
+    if (indices.includes(via)) return null
+    targetPath = [...to.path]
+    targetPath[from.path.length] = via - indices.filter((i) => i < via).length
+  }
+
+  const moved: DirectAccessKey[] = indices.map((i) => source.keys![i])
+  const removed = updatePage(profile, from, (page) => ({
+    ...page,
+    keys: (page.keys ?? []).filter((_, i) => !indices.includes(i)),
+  }))
+  return updatePage(removed, { tabIndex: to.tabIndex, path: targetPath }, (page) => ({
+    ...page,
+    keys: [...(page.keys ?? []), ...moved],
+  }))
+}
+
+/** A page after grouping or flattening, with the indices of the keys to select on it. */
+export interface RestructuredPage {
+  page: DirectAccessPage
+  keyIndices: number[]
+}
+
+/**
+ * Replace the keys at `keyIndices` with one folder key (blank label) at the first one's position,
+ * whose subpage holds them in their current order and has the same number of rows as `page`.
+ */
+export function groupKeysIntoSubpage(page: DirectAccessPage, keyIndices: number[]): RestructuredPage | null {
+  const keys = page.keys ?? []
+  const indices = [...new Set(keyIndices)].filter((i) => i >= 0 && i < keys.length).sort((a, b) => a - b)
+  if (page.client_page != null || indices.length === 0) return null
+  const folder: DirectAccessKey = { label: [], page: { rows: page.rows, keys: indices.map((i) => keys[i]) } }
+  const at = indices[0]
+  const rest = keys.filter((_, i) => !indices.includes(i))
+  return { page: { ...page, keys: [...rest.slice(0, at), folder, ...rest.slice(at)] }, keyIndices: [at] }
+}
+
+/**
+ * Replace each key at `keyIndices` that has a key subpage with that subpage's keys (the folder key's
+ * own label and station ID are dropped). Keys without a subpage, or with a client page, are left alone.
+ */
+export function flattenSubpages(page: DirectAccessPage, keyIndices: number[]): RestructuredPage | null {
+  if (page.client_page != null) return null
+  const keys: DirectAccessKey[] = []
+  const selected: number[] = []
+  let flattened = false
+  ;(page.keys ?? []).forEach((key, i) => {
+    if (keyIndices.includes(i) && key.page != null && key.page.client_page == null) {
+      const inlined = key.page.keys ?? []
+      selected.push(...inlined.map((_, j) => keys.length + j))
+      keys.push(...inlined)
+      flattened = true
+    } else {
+      keys.push(key)
+    }
+  })
+  return flattened ? { page: { ...page, keys }, keyIndices: selected } : null
+}
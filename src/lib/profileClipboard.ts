@@ -0,0 +1,112 @@
+import type { DirectAccessKey, DirectAccessPage, Tab } from '../types'
+import {
+  validateKey,
+  validatePage,
+  validateTab,
+  normalizeKey,
+  normalizePage,
+  normalizeTab,
+  type ValidationError,
+} from './validation'
+
+/**
+ * Keys and tabs on the system clipboard as profile JSON fragments, so they can be moved between
+ * browser tabs or pasted from a snippet. Accepted on paste: a key, an array of keys, a page
+ * (`rows` plus `keys`) or a tab. A tab and a key with a subpage have the same shape, so either
+ * can be pasted as keys (a folder key) or as a tab.
+ */
+
+export type ClipboardFragment =
+  | { kind: 'keys'; keys: DirectAccessKey[] }
+  | { kind: 'page'; page: DirectAccessPage }
+  /** A tab, or a key with a subpage. */
+  | { kind: 'tab'; tab: Tab }
+
+export type ParsedFragment = { ok: true; fragment: ClipboardFragment } | { ok: false; errors: ValidationError[] }
+
+export function keysToClipboardText(keys: DirectAccessKey[]): string {
+  return JSON.stringify(keys.length === 1 ? keys[0] : keys, null, 2)
+}
+
+export function tabToClipboardText(tab: Tab): string {
+  return JSON.stringify(tab, null, 2)
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return value != null && typeof value === 'object' && !Array.isArray(value)
+}
+
+/** Only objects with a key's own fields count as keys, so unrelated JSON is reported instead of pasted as a blank key. */
+function looksLikeKey(value: unknown): boolean {
+  return isRecord(value) && (Array.isArray(value.label) || 'station_id' in value || 'page' in value)
+}
+
+const UNRECOGNIZED_FRAGMENT = 'Expected a key, an array of keys, a page or a tab'
+
+/** Parse pasted text; null when it is not JSON at all (so the caller can fall back to the in-app clipboard). */
+export function parseClipboardFragment(text: string): ParsedFragment | null {
+  let data: unknown
+  try {
+    data = JSON.parse(text)
+  } catch {
+    return null
+  }
+  const errors: ValidationError[] = []
+
+  if (Array.isArray(data)) {
+    data.forEach((k, i) => {
+      if (looksLikeKey(k)) validateKey(k, `[${i}]`, errors)
+      else errors.push({ path: `[${i}]`, message: 'Expected a key' })
+    })
+    if (errors.length > 0) return { ok: false, errors }
+    return { ok: true, fragment: { kind: 'keys', keys: (data as DirectAccessKey[]).map((k) => normalizeKey(k)) } }
+  }
+  if (!isRecord(data)) {
+    return { ok: false, errors: [{ path: '', message: UNRECOGNIZED_FRAGMENT }] }
+  }
+  if ('rows' in data) {
+    validatePage(data, '', errors)
+    if (errors.length > 0) return { ok: false, errors }
+    return { ok: true, fragment: { kind: 'page', page: normalizePage(data as unknown as DirectAccessPage) } }
+  }
+  if (isRecord(data.page) && data.station_id === undefined) {
+    validateTab(data, '', errors)
+    if (errors.length === 0) return { ok: true, fragment: { kind: 'tab', tab: normalizeTab(data as unknown as Tab) } }
+    // Not a valid tab (e.g. an empty label): try it as a key with a subpage
+    errors.length = 0
+  }
+  if (!looksLikeKey(data)) {
+    return { ok: false, errors: [{ path: '', message: UNRECOGNIZED_FRAGMENT }] }
+  }
+  validateKey(data, '', errors)
+  if (errors.length > 0) return { ok: false, errors }
+  return { ok: true, fragment: { kind: 'keys', keys: [normalizeKey(data as unknown as DirectAccessKey)] } }
+}
+
+/** The fragment as keys for a key page; null for a client page, which has none. */
+export function fragmentToKeys(fragment: ClipboardFragment): DirectAccessKey[] | null {
+  switch (fragment.kind) {
+    case 'keys':
+      return fragment.keys
+    case 'page':
+      return fragment.page.client_page != null ? null : fragment.page.keys ?? []
+    case 'tab':
+      return [{ ...fragment.tab }]
+  }
+}
+
+/** The fragment as a new tab: a tab as is, a page or keys on a new page labelled `label`. */
+export function fragmentToTab(fragment: ClipboardFragment, label: string[]): Tab {
+  switch (fragment.kind) {
+    case 'tab':
+      return fragment.tab
+    case 'page':
+      return { label, page: fragment.page }
+    case 'keys':
+      return { label, page: { rows: 4, keys: fragment.keys } }
+  }
+}
+
+export function formatFragmentErrors(errors: ValidationError[]): string {
+  return errors.map((err) => (err.path !== '' ? `${err.path}: ${err.message}` : err.message)).join('\n')
+}
@@ -0,0 +1,214 @@
+import type { TabbedProfile, Tab, DirectAccessKey, DirectAccessPage } from '../types'
+import { TAB_FIELDS, PAGE_FIELDS, KEY_FIELDS, PROFILE_FIELDS, CLIENT_PAGE_FIELDS, unknownFields } from '../types'
+
+/**
+ * Semantic diff between two profiles (e.g. as loaded vs. as edited).
+ * Tabs and keys have no ids, so they are paired by content: identical first, then
+ * same station ID / same label, then (tabs only) same position. Pairs outside the
+ * longest in-order run are reported as moved, so one insertion does not mark every
+ * following key as moved.
+ */
+
+export type ItemChangeKind = 'added' | 'removed' | 'moved' | 'modified'
+
+export interface KeyDiff {
+  kind: ItemChangeKind
+  /** Index on the old page (absent when added). */
+  beforeIndex?: number
+  /** Index on the new page (absent when removed). */
+  afterIndex?: number
+  /** The new key, or the old one when removed. */
+  key: DirectAccessKey
+  details: string[]
+  subpage?: PageDiff
+}
+
+export interface PageDiff {
+  details: string[]
+  keys: KeyDiff[]
+}
+
+export interface TabDiff {
+  kind: ItemChangeKind
+  beforeIndex?: number
+  afterIndex?: number
+  label: string[]
+  details: string[]
+  page?: PageDiff
+}
+
+export interface ProfileDiff {
+  details: string[]
+  tabs: TabDiff[]
+}
+
+export function isPageDiffEmpty(diff: PageDiff | undefined): boolean {
+  return diff == null || (diff.details.length === 0 && diff.keys.length === 0)
+}
+
+export function countProfileChanges(diff: ProfileDiff): number {
+  const countPage = (page: PageDiff | undefined): number =>
+    page == null ? 0 : page.details.length + page.keys.reduce((n, k) => n + 1 + countPage(k.subpage), 0)
+  return diff.details.length + diff.tabs.reduce((n, t) => n + 1 + countPage(t.page), 0)
+}
+
+const sameJson = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b)
+const formatLabel = (label: string[]) => JSON.stringify(label.map((l) => l.trim()).filter((l) => l !== ''))
+const labelText = (label: string[]) => label.map((l) => l.trim()).filter((l) => l !== '').join(' ')
+const stationOf = (key: DirectAccessKey) => key.station_id?.trim() ?? ''
+
+/**
+ * Pair items of `before` and `after`: each predicate pass pairs still-unmatched items in order.
+ * Returns pairs sorted by before index.
+ */
+function matchItems<T>(before: T[], after: T[], passes: ((a: T, b: T, ai: number, bi: number) => boolean)[]): [number, number][] {
+  const usedBefore = new Set<number>()
+  const usedAfter = new Set<number>()
+  const pairs: [number, number][] = []
+  for (const pass of passes) {
+    for (let ai = 0; ai < before.length; ai++) {
+      if (usedBefore.has(ai)) continue
+      for (let bi = 0; bi < after.length; bi++) {
+        if (usedAfter.has(bi) || !pass(before[ai], after[bi], ai, bi)) continue
+        usedBefore.add(ai)
+        usedAfter.add(bi)
+        pairs.push([ai, bi])
+        break
+      }
+    }
+  }
+  return pairs.sort((x, y) => x[0] - y[0])
+}
+
+/** Indices (into `pairs`) of the longest run whose after indices increase; those did not move. */
+function stablePairs(pairs: [number, number][]): Set<number> {
+  const n = pairs.length
+  const length = new Array<number>(n).fill(1)
+  const prev = new Array<number>(n).fill(-1)
+  let best = -1
+  for (let i = 0; i < n; i++) {
+    for (let j = 0; j < i; j++) {
+      if (pairs[j][1] < pairs[i][1] && length[j] + 1 > length[i]) {
+        length[i] = length[j] + 1
+        prev[i] = j
+      }
+    }
+    if (best < 0 || length[i] > length[best]) best = i
+  }
+  const stable = new Set<number>()
+  for (let i = best; i >= 0; i = prev[i]) stable.add(i)
+  return stable
+}
+
+function otherFieldDetails(before: object, after: object, known: readonly string[]): string[] {
+  const a = unknownFields(before, known)
+  const b = unknownFields(after, known)
+  const fields = new Set([...Object.keys(a), ...Object.keys(b)])
+  return Array.from(fields)
+    .filter((f) => !sameJson(a[f], b[f]))
+    .map((f) => (f in a ? (f in b ? `${f} changed` : `${f} removed`) : `${f} added`))
+}
+
+export function diffPages(before: DirectAccessPage, after: DirectAccessPage): PageDiff {
+  const details: string[] = []
+  if (before.rows !== after.rows) details.push(`rows ${before.rows} → ${after.rows}`)
+  details.push(...otherFieldDetails(before, after, PAGE_FIELDS))
+  const beforeClient = before.client_page
+  const afterClient = after.client_page
+  if (beforeClient != null && afterClient != null) {
+    for (const field of CLIENT_PAGE_FIELDS) {
+      if (!sameJson(beforeClient[field] ?? null, afterClient[field] ?? null)) {
+        details.push(`client page ${field} ${JSON.stringify(beforeClient[field] ?? null)} → ${JSON.stringify(afterClient[field] ?? null)}`)
+      }
+    }
+    details.push(...otherFieldDetails(beforeClient, afterClient, CLIENT_PAGE_FIELDS).map((d) => `client page ${d}`))
+    return { details, keys: [] }
+  }
+  if (beforeClient != null) details.push('converted from client page to key page')
+  if (afterClient != null) details.push('converted from key page to client page')
+  return { details, keys: diffKeys(before.keys ?? [], after.keys ?? []) }
+}
+
+function diffKeys(before: DirectAccessKey[], after: DirectAccessKey[]): KeyDiff[] {
+  const pairs = matchItems(before, after, [
+    (a, b) => sameJson(a, b),
+    (a, b) => stationOf(a) !== '' && stationOf(a) === stationOf(b),
+    (a, b) => labelText(a.label) !== '' && labelText(a.label) === labelText(b.label),
+  ])
+  const stable = stablePairs(pairs)
+  const result: KeyDiff[] = []
+  const pairedBefore = new Set(pairs.map(([a]) => a))
+  const pairedAfter = new Set(pairs.map(([, b]) => b))
+
+  pairs.forEach(([ai, bi], pi) => {
+    const a = before[ai]
+    const b = after[bi]
+    const details: string[] = []
+    if (!sameJson(a.label, b.label)) details.push(`label ${formatLabel(a.label)} → ${formatLabel(b.label)}`)
+    if (stationOf(a) !== stationOf(b)) details.push(`station ${stationOf(a) || '(none)'} → ${stationOf(b) || '(none)'}`)
+    details.push(...otherFieldDetails(a, b, KEY_FIELDS))
+    let subpage: PageDiff | undefined
+    if (a.page != null && b.page == null) details.push('subpage removed')
+    else if (a.page == null && b.page != null) details.push('subpage added')
+    else if (a.page != null && b.page != null) {
+      subpage = diffPages(a.page, b.page)
+      if (isPageDiffEmpty(subpage)) subpage = undefined
+    }
+    const moved = !stable.has(pi)
+    if (!moved && details.length === 0 && subpage == null) return
+    result.push({ kind: moved ? 'moved' : 'modified', beforeIndex: ai, afterIndex: bi, key: b, details, subpage })
+  })
+  before.forEach((key, ai) => {
+    if (!pairedBefore.has(ai)) result.push({ kind: 'removed', beforeIndex: ai, key, details: [] })
+  })
+  after.forEach((key, bi) => {
+    if (!pairedAfter.has(bi)) result.push({ kind: 'added', afterIndex: bi, key, details: [] })
+  })
+  // Present in new-page order; removed keys sort by their old position.
+  return result.sort((x, y) => (x.afterIndex ?? x.beforeIndex ?? 0) - (y.afterIndex ?? y.beforeIndex ?? 0))
+}
+
+function diffTabs(before: Tab[], after: Tab[]): TabDiff[] {
+  const pairs = matchItems(before, after, [
+    (a, b) => sameJson(a, b),
+    (a, b) => sameJson(a.label, b.label),
+    (_a, _b, ai, bi) => ai === bi,
+  ])
+  const stable = stablePairs(pairs)
+  const result: TabDiff[] = []
+  const pairedBefore = new Set(pairs.map(([a]) => a))
+  const pairedAfter = new Set(pairs.map(([, b]) => b))
+
+  pairs.forEach(([ai, bi], pi) => {
+    const a = before[ai]
+    const b = after[bi]
+    const details: string[] = []
+    if (!sameJson(a.label, b.label)) details.push(`label ${formatLabel(a.label)} → ${formatLabel(b.label)}`)
+    details.push(...otherFieldDetails(a, b, TAB_FIELDS))
+    const page = diffPages(a.page, b.page)
+    const moved = !stable.has(pi)
+    if (!moved && details.length === 0 && isPageDiffEmpty(page)) return
+    result.push({
+      kind: moved ? 'moved' : 'modified',
+      beforeIndex: ai,
+      afterIndex: bi,
+      label: b.label,
+      details,
+      page: isPageDiffEmpty(page) ? undefined : page,
+    })
+  })
+  before.forEach((tab, ai) => {
+    if (!pairedBefore.has(ai)) result.push({ kind: 'removed', beforeIndex: ai, label: tab.label, details: [] })
+  })
+  after.forEach((tab, bi) => {
+    if (!pairedAfter.has(bi)) result.push({ kind: 'added', afterIndex: bi, label: tab.label, details: [] })
+  })
+  return result.sort((x, y) => (x.afterIndex ?? x.beforeIndex ?? 0) - (y.afterIndex ?? y.beforeIndex ?? 0))
+}
+
+export function diffProfiles(before: TabbedProfile, after: TabbedProfile): ProfileDiff {
+  const details: string[] = []
+  if (before.id !== after.id) details.push(`id ${before.id} → ${after.id}`)
+  details.push(...otherFieldDetails(before, after, PROFILE_FIELDS))
+  return { details, tabs: diffTabs(before.tabs, after.tabs) }
+}
@@ -0,0 +1,76 @@
+import type { TabbedProfile, DirectAccessKey, DirectAccessPage } from '../types'
+
+/** Where a key lives: tab, subpage path (key indices from the tab page down) and index on that page. */
+export interface KeyLocation {
+  tabIndex: number
+  path: number[]
+  keyIndex: number
+}
+
+/** Visit every page of every tab depth-first (parents before their subpages), including client pages. */
+export function forEachPage(
+  profile: TabbedProfile,
+  visit: (page: DirectAccessPage, tabIndex: number, path: number[]) => void
+): void {
+  const walk = (page: DirectAccessPage, tabIndex: number, path: number[]) => {
+    visit(page, tabIndex, path)
+    ;(page.keys ?? []).forEach((key, i) => {
+      if (key.page != null) walk(key.page, tabIndex, [...path, i])
+    })
+  }
+  profile.tabs.forEach((tab, tabIndex) => walk(tab.page, tabIndex, []))
+}
+
+/** Visit every key in the profile, in the same order as forEachPage. */
+export function forEachKey(profile: TabbedProfile, visit: (key: DirectAccessKey, location: KeyLocation) => void): void {
+  forEachPage(profile, (page, tabIndex, path) => {
+    ;(page.keys ?? []).forEach((key, keyIndex) => visit(key, { tabIndex, path, keyIndex }))
+  })
+}
+
+/** Human-readable location, e.g. "CTR › LOWW › key 3". Uses the first label line of the tab and each subpage key. */
+export function describeLocation(profile: TabbedProfile, tabIndex: number, path: number[], keyIndex?: number): string {
+  const tab = profile.tabs[tabIndex]
+  if (!tab) return `Tab ${tabIndex + 1}`
+  const parts = [tab.label[0]?.trim() || `Tab ${tabIndex + 1}`]
+  let page: DirectAccessPage | undefined = tab.page
+  for (const i of path) {
+    const key: DirectAccessKey | undefined = page?.keys?.[i]
+    parts.push(key?.label[0]?.trim() || `Key ${i + 1}`)
+    page = key?.page
+  }
+  if (keyIndex != null) parts.push(`key ${keyIndex + 1}`)
+  return parts.join(' › ')
+}
+
+/**
+ * Copy of the profile with `update` applied to every key (subpages included, visited before their
+ * own keys are mapped). Unchanged pages and tabs keep their identity; return the same key to leave it.
+ */
+export function mapKeys(
+  profile: TabbedProfile,
+  update: (key: DirectAccessKey, location: KeyLocation) => DirectAccessKey
+): TabbedProfile {
+  const mapPage = (page: DirectAccessPage, tabIndex: number, path: number[]): DirectAccessPage => {
+    if (page.keys == null) return page
+    let changed = false
+    const keys = page.keys.map((key, keyIndex) => {
+      let next = update(key, { tabIndex, path, keyIndex })
+      if (next.page != null) {
+        const subpage = mapPage(next.page, tabIndex, [...path, keyIndex])
+        if (subpage !== next.page) next = { ...next, page: subpage }
+      }
+      if (next !== key) changed = true
+      return next
+    })
+    return changed ? { ...page, keys } : page
+  }
+  let changed = false
+  const tabs = profile.tabs.map((tab, tabIndex) => {
+    const page = mapPage(tab.page, tabIndex, [])
+    if (page === tab.page) return tab
+    changed = true
+    return { ...tab, page }
+  })
+  return changed ? { ...profile, tabs } : profile
+}
@@ -1,30 +1,22 @@
-import prettier from 'prettier/standalone'
-import prettierPluginBabel from 'prettier/plugins/babel'
-import prettierPluginEstree from 'prettier/plugins/estree'
-import type { Options as PrettierOptions } from 'prettier'
-import type { TabbedProfile, DirectAccessKey, DirectAccessPage } from '../types'
+import type { TabbedProfile, Tab, DirectAccessKey, DirectAccessPage, ClientPageConfig } from '../types'
+import { PROFILE_FIELDS, TAB_FIELDS, PAGE_FIELDS, KEY_FIELDS, CLIENT_PAGE_FIELDS, unknownFields } from '../types'
+import { formatJson } from './formatJson'
 
 /**
  * Serialize a profile to JSON matching vacs-data Prettier format exactly.
- * Output passes `prettier --check` in the dataset repo.
+ * Output passes `prettier --check` in the dataset repo (verified by `npm run test:format`).
  *
- * Format: objects expanded (one prop per line), arrays compact when under 80 chars,
+ * Format: objects expanded (one prop per line), arrays compact when they fit in 50 chars,
  * 2-space indent, LF, trailing newline.
+ *
+ * Known fields come first in schema order; fields the editor does not model follow
+ * in the order they were loaded.
  */
-// Match vacs-data Prettier/editorconfig defaults for JSON output.
-const PRETTIER_OPTIONS: PrettierOptions = {
-  parser: 'json',
-  plugins: [prettierPluginBabel, prettierPluginEstree],
-  printWidth: 50,
-  tabWidth: 2,
-  useTabs: false,
-  endOfLine: 'lf',
-}
+// Match vacs-data Prettier/editorconfig settings for JSON output.
+export const VACS_DATA_FORMAT = { printWidth: 50, tabWidth: 2 }
 
-export async function serializeProfile(profile: TabbedProfile): Promise<string> {
-  const obj = profileToJson(profile)
-  const json = JSON.stringify(obj, null, 2)
-  return await prettier.format(json, PRETTIER_OPTIONS)
+export function serializeProfile(profile: TabbedProfile): string {
+  return formatJson(profileToJson(profile), VACS_DATA_FORMAT)
 }
 
 function profileToJson(profile: TabbedProfile): Record<string, unknown> {
@@ -32,21 +24,34 @@ function profileToJson(profile: TabbedProfile): Record<string, unknown> {
     id: profile.id,
     type: profile.type,
     tabs: profile.tabs.map(tabToJson),
+    ...unknownFields(profile, PROFILE_FIELDS),
   }
 }
 
-function tabToJson(tab: { label: string[]; page: DirectAccessPage }): Record<string, unknown> {
-  return { label: tab.label, page: pageToJson(tab.page) }
+function tabToJson(tab: Tab): Record<string, unknown> {
+  return { label: tab.label, page: pageToJson(tab.page), ...unknownFields(tab, TAB_FIELDS) }
 }
 
 function pageToJson(page: DirectAccessPage): Record<string, unknown> {
-  if (page.client_page != null) return { rows: page.rows, client_page: page.client_page }
-  return { rows: page.rows, keys: (page.keys ?? []).map(keyToJson) }
+  const extra = unknownFields(page, PAGE_FIELDS)
+  if (page.client_page != null) return { rows: page.rows, client_page: clientPageToJson(page.client_page), ...extra }
+  return { rows: page.rows, keys: (page.keys ?? []).map(keyToJson), ...extra }
 }
 
 function keyToJson(key: DirectAccessKey): Record<string, unknown> {
   const result: Record<string, unknown> = { label: key.label }
   if (key.station_id != null && key.station_id !== '') result.station_id = key.station_id
   if (key.page != null) result.page = pageToJson(key.page)
-  return result
+  return { ...result, ...unknownFields(key, KEY_FIELDS) }
+}
+
+/** Empty patterns are dropped. */
+function clientPageToJson(clientPage: ClientPageConfig): Record<string, unknown> {
+  const result: Record<string, unknown> = {}
+  for (const field of CLIENT_PAGE_FIELDS) {
+    const value = clientPage[field]
+    if (value == null) continue
+    result[field] = Array.isArray(value) ? value.map((p) => p.trim()).filter((p) => p !== '') : value
+  }
+  return { ...result, ...unknownFields(clientPage, CLIENT_PAGE_FIELDS) }
 }
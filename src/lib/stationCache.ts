@@ -0,0 +1,102 @@
+import type { StationDataset } from './vacsStations'
+import { formatDatasetSource, type DatasetSource } from './datasetSource'
+
+/**
+ * Persist the last loaded station dataset per source (owner/repo@ref) in IndexedDB so the editor
+ * has stations immediately at startup and while offline. All failures (private mode, quota,
+ * blocked upgrade) degrade to "no cache" instead of surfacing as errors.
+ */
+
+const DB_NAME = 'vacs-profileeditor'
+const DB_VERSION = 2
+const STORE = 'stations'
+/** Single entry used before datasets were cached per source; removed when the database is upgraded. */
+const LEGACY_KEY = 'dataset'
+
+function openDb(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB not available'))
+      return
+    }
+    const req = indexedDB.open(DB_NAME, DB_VERSION)
+    req.onupgradeneeded = (event) => {
+      if (!req.result.objectStoreNames.contains(STORE)) req.result.createObjectStore(STORE)
+      else if (event.oldVersion < 2) req.transaction?.objectStore(STORE).delete(LEGACY_KEY)
+    }
+    req.onsuccess = () => resolve(req.result)
+    req.onerror = () => reject(req.error)
+  })
+}
+
+function isDataset(value: unknown): value is StationDataset {
+  if (value == null || typeof value !== 'object') return false
+  const d = value as Partial<StationDataset>
+  // Records written before errors/positions/source were stored are refetched
+  return (
+    Array.isArray(d.stations) &&
+    Array.isArray(d.errors) &&
+    Array.isArray(d.positions) &&
+    d.source != null &&
+    typeof d.treeSha === 'string' &&
+    typeof d.fetchedAt === 'number'
+  )
+}
+
+/** Key of the latest dataset of a source; the snapshot it replaced is kept under `${key}#previous`. */
+function cacheKey(source: DatasetSource, previous = false): string {
+  return previous ? `${formatDatasetSource(source)}#previous` : formatDatasetSource(source)
+}
+
+async function readEntry(key: string): Promise<StationDataset | null> {
+  try {
+    const db = await openDb()
+    try {
+      return await new Promise<StationDataset | null>((resolve, reject) => {
+        const req = db.transaction(STORE, 'readonly').objectStore(STORE).get(key)
+        req.onsuccess = () => resolve(isDataset(req.result) ? req.result : null)
+        req.onerror = () => reject(req.error)
+      })
+    } finally {
+      db.close()
+    }
+  } catch {
+    return null
+  }
+}
+
+async function writeEntry(key: string, dataset: StationDataset): Promise<void> {
+  try {
+    const db = await openDb()
+    try {
+      await new Promise<void>((resolve, reject) => {
+        const tx = db.transaction(STORE, 'readwrite')
+        tx.objectStore(STORE).put(dataset, key)
+        tx.oncomplete = () => resolve()
+        tx.onerror = () => reject(tx.error)
+      })
+    } finally {
+      db.close()
+    }
+  } catch {
+    // Cache is best-effort; the in-memory dataset is still used.
+  }
+}
+
+export function readCachedStations(source: DatasetSource): Promise<StationDataset | null> {
+  return readEntry(cacheKey(source))
+}
+
+/** Cache a dataset loaded from GitHub under its source; local datasets (no source) are not cached. */
+export async function writeCachedStations(dataset: StationDataset): Promise<void> {
+  if (dataset.source != null) await writeEntry(cacheKey(dataset.source), dataset)
+}
+
+/** The snapshot of `source` that the current cached dataset replaced, for comparing dataset versions. */
+export function readPreviousStations(source: DatasetSource): Promise<StationDataset | null> {
+  return readEntry(cacheKey(source, true))
+}
+
+export async function writePreviousStations(dataset: StationDataset): Promise<void> {
+  if (dataset.source != null) await writeEntry(cacheKey(dataset.source, true), dataset)
+}
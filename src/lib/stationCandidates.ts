@@ -0,0 +1,85 @@
+import type { StationEntry } from './vacsStations'
+import { getMatchTokens, normalizeStationIdForMatch } from './stationIdMatch'
+
+/**
+ * Nearest-match replacements for a station ID that is not in the dataset, ranked by
+ * edit distance, token overlap (getMatchTokens) and whether the station is in the profile's FIR.
+ */
+
+export interface StationCandidate {
+  station: StationEntry
+  /** Levenshtein distance between the normalized IDs. */
+  distance: number
+  /** Share of the input's match tokens found in the candidate (0..1). */
+  overlap: number
+  sameFir: boolean
+  score: number
+}
+
+export const MAX_STATION_CANDIDATES = 5
+
+export function levenshtein(a: string, b: string): number {
+  if (a === b) return 0
+  if (a.length === 0) return b.length
+  if (b.length === 0) return a.length
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j)
+  for (let i = 1; i <= a.length; i++) {
+    const curr = [i]
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1
+      curr[j] = Math.min(prev[j] + 1, curr[j - 1] + 1, prev[j - 1] + cost)
+    }
+    prev = curr
+  }
+  return prev[b.length]
+}
+
+/**
+ * FIRs the profile belongs to, from its id: every dataset FIR that appears as a word of the id
+ * (e.g. "LOVV" or "LOVV_default" → LOVV).
+ */
+export function getProfileFirs(profileId: string, stations: StationEntry[]): Set<string> {
+  const words = new Set(profileId.toUpperCase().split(/[^A-Z0-9]+/).filter(Boolean))
+  const firs = new Set<string>()
+  for (const s of stations) if (words.has(s.fir.toUpperCase())) firs.add(s.fir)
+  return firs
+}
+
+/** Ranked candidates for `stationId`, best first; only reasonably close stations are returned. */
+export function rankStationCandidates(
+  stationId: string,
+  stations: StationEntry[],
+  profileFirs: ReadonlySet<string>,
+  limit = MAX_STATION_CANDIDATES
+): StationCandidate[] {
+  const input = normalizeStationIdForMatch(stationId)
+  if (input === '') return []
+  const tokens = getMatchTokens(stationId)
+  const candidates: StationCandidate[] = []
+  for (const station of stations) {
+    const normalized = normalizeStationIdForMatch(station.id)
+    const distance = levenshtein(input, normalized)
+    const overlap = tokens.length > 0 ? tokens.filter((t) => normalized.includes(t)).length / tokens.length : 0
+    // Too far away to be a typo and nothing in common: not a candidate
+    if (distance > Math.max(2, Math.floor(input.length / 2)) && overlap === 0) continue
+    const sameFir = profileFirs.has(station.fir)
+    const score = 1 - distance / Math.max(input.length, normalized.length) + overlap + (sameFir ? 0.25 : 0)
+    candidates.push({ station, distance, overlap, sameFir, score })
+  }
+  return candidates
+    .sort((a, b) => b.score - a.score || a.distance - b.distance || a.station.id.localeCompare(b.station.id))
+    .slice(0, limit)
+}
+
+/** Edit distance up to which a candidate counts as a likely typo fix (see getConfidentCandidate). */
+export const CONFIDENT_CANDIDATE_DISTANCE = 2
+
+/**
+ * The candidate safe to offer as the default replacement: the best one, when it is within
+ * CONFIDENT_CANDIDATE_DISTANCE and no other candidate is as close. Null when the user has to pick.
+ */
+export function getConfidentCandidate(candidates: StationCandidate[]): StationCandidate | null {
+  const best = candidates[0]
+  if (best == null || best.distance > CONFIDENT_CANDIDATE_DISTANCE) return null
+  return candidates.some((c) => c !== best && c.distance <= best.distance) ? null : best
+}
@@ -0,0 +1,44 @@
+import type { PositionEntry, StationEntry } from './vacsStations'
+import { getResolvedControlledBy } from './coverage'
+
+/**
+ * Station details for suggestions and tooltips: the positions that answer a station
+ * (its resolved controlled_by, in priority order) with their frequency and callsign prefixes.
+ */
+
+/** Positions that answer `entry`, in controlled_by priority order; ids without a position record are skipped. */
+export function getStationPositions(
+  entry: StationEntry,
+  stationsById: Map<string, StationEntry>,
+  positionsById: Map<string, PositionEntry>
+): PositionEntry[] {
+  return getResolvedControlledBy(entry, stationsById)
+    .map((id) => positionsById.get(id))
+    .filter((p): p is PositionEntry => p != null)
+}
+
+/** One line per position, e.g. "LOWW_TWR 119.400 · TWR · LOWW". */
+export function formatPosition(position: PositionEntry): string {
+  const parts = [position.frequency ? `${position.id} ${position.frequency}` : position.id]
+  if (position.facility_type) parts.push(position.facility_type)
+  if (position.prefixes.length > 0) parts.push(position.prefixes.join('/'))
+  return parts.join(' · ')
+}
+
+/** Multi-line tooltip: station and FIR, then each controlling position (with frequency/callsign when known). */
+export function describeStation(
+  entry: StationEntry,
+  stationsById: Map<string, StationEntry>,
+  positionsById: Map<string, PositionEntry>
+): string {
+  const lines = [`${entry.id} (${entry.fir})`]
+  const resolved = getResolvedControlledBy(entry, stationsById)
+  if (resolved.length > 0) {
+    lines.push('Controlled by:')
+    for (const id of resolved) {
+      const position = positionsById.get(id)
+      lines.push(position != null ? formatPosition(position) : id)
+    }
+  }
+  return lines.join('\n')
+}
@@ -0,0 +1,23 @@
+import type { DirectAccessKey } from '../types'
+import type { StationEntry } from './vacsStations'
+
+/** Label lines the vacs client shows per key. */
+export const MAX_LABEL_LINES = 3
+
+/** Key label for a station ID; defaultStationLabel, or the user's label templates (see labelTemplates). */
+export type LabelGenerator = (stationId: string) => string[]
+
+/**
+ * Default key label for a station: its id split on "_", one part per line
+ * ("LOWW_TWR" → ["LOWW", "TWR"]); parts beyond the third line are joined onto the last one.
+ */
+export function defaultStationLabel(stationId: string): string[] {
+  const parts = stationId.split('_').filter(Boolean)
+  if (parts.length <= MAX_LABEL_LINES) return parts
+  return [...parts.slice(0, MAX_LABEL_LINES - 1), parts.slice(MAX_LABEL_LINES - 1).join(' ')]
+}
+
+/** New key for a station, labelled by `makeLabel`. */
+export function createStationKey(station: StationEntry, makeLabel: LabelGenerator = defaultStationLabel): DirectAccessKey {
+  return { label: makeLabel(station.id), station_id: station.id }
+}
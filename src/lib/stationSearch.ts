@@ -0,0 +1,101 @@
+import type { StationEntry } from './vacsStations'
+
+/**
+ * Ranked station search for the station ID suggestions. Every query token must occur in the id;
+ * an occurrence at the start of the id scores higher than one at a token boundary ("_"),
+ * which scores higher than one anywhere else. Stations in the profile's FIR and at airports
+ * already used near the key (same id prefix) are preferred.
+ */
+
+export interface StationMatch {
+  station: StationEntry
+  score: number
+  /** Matched [start, end) character ranges in `station.id`, sorted and merged, for highlighting. */
+  ranges: [number, number][]
+}
+
+export interface StationSearchOptions {
+  /** FIRs of the open profile (see getProfileFirs). */
+  profileFirs?: ReadonlySet<string>
+  /** Station IDs used on the current page and its parents. */
+  nearbyStationIds?: readonly string[]
+  limit?: number
+}
+
+const SCORE_PREFIX = 3
+const SCORE_BOUNDARY = 2
+const SCORE_SUBSTRING = 1
+const BONUS_EXACT = 10
+const BONUS_PROFILE_FIR = 2
+const BONUS_NEARBY = 1.5
+
+function queryTokens(query: string): string[] {
+  return query.toUpperCase().split(/[\s_]+/).filter(Boolean)
+}
+
+/** Best occurrence of `token` in `id` (both upper case): prefix, else token boundary, else first substring. */
+function findToken(id: string, token: string): { index: number; score: number } | null {
+  if (id.startsWith(token)) return { index: 0, score: SCORE_PREFIX }
+  let index = id.indexOf(token)
+  if (index < 0) return null
+  const first = index
+  while (index >= 0) {
+    if (id[index - 1] === '_') return { index, score: SCORE_BOUNDARY }
+    index = id.indexOf(token, index + 1)
+  }
+  return { index: first, score: SCORE_SUBSTRING }
+}
+
+function mergeRanges(ranges: [number, number][]): [number, number][] {
+  const sorted = [...ranges].sort((a, b) => a[0] - b[0])
+  const merged: [number, number][] = []
+  for (const range of sorted) {
+    const last = merged[merged.length - 1]
+    if (last != null && range[0] <= last[1]) last[1] = Math.max(last[1], range[1])
+    else merged.push([range[0], range[1]])
+  }
+  return merged
+}
+
+function matchTokens(id: string, tokens: string[]): { score: number; ranges: [number, number][] } | null {
+  let score = 0
+  const ranges: [number, number][] = []
+  for (const token of tokens) {
+    const found = findToken(id, token)
+    if (found == null) return null
+    score += found.score
+    ranges.push([found.index, found.index + token.length])
+  }
+  return { score, ranges: mergeRanges(ranges) }
+}
+
+/** Airport / FIR part of a station id, e.g. "LOWW" for "LOWW_E_TWR". */
+export function stationIdPrefix(id: string): string {
+  return id.split('_')[0].toUpperCase()
+}
+
+export function searchStations(query: string, stations: StationEntry[], options: StationSearchOptions = {}): StationMatch[] {
+  const { profileFirs, nearbyStationIds = [], limit = Infinity } = options
+  const tokens = queryTokens(query)
+  if (tokens.length === 0) return []
+  // "LOWWTWR" without separator: also try airport code + rest, like getMatchTokens
+  const splitTokens = tokens.length === 1 && tokens[0].length >= 6 ? [tokens[0].slice(0, 4), tokens[0].slice(4)] : null
+  const nearbyPrefixes = new Set(nearbyStationIds.map(stationIdPrefix))
+  const exact = query.trim().toUpperCase()
+
+  const matches: StationMatch[] = []
+  for (const station of stations) {
+    const id = station.id.toUpperCase()
+    let match = matchTokens(id, tokens)
+    if (match == null && splitTokens != null) match = matchTokens(id, splitTokens)
+    if (match == null) continue
+    let score = match.score
+    if (id === exact) score += BONUS_EXACT
+    if (profileFirs?.has(station.fir)) score += BONUS_PROFILE_FIR
+    if (nearbyPrefixes.has(stationIdPrefix(id))) score += BONUS_NEARBY
+    matches.push({ station, score, ranges: match.ranges })
+  }
+  return matches
+    .sort((a, b) => b.score - a.score || a.station.id.length - b.station.id.length || a.station.id.localeCompare(b.station.id))
+    .slice(0, limit)
+}
@@ -0,0 +1,57 @@
+import type { StationEntry } from './vacsStations'
+
+/** A station with the stations whose parent_id points at it. */
+export interface StationTreeNode {
+  station: StationEntry
+  children: StationTreeNode[]
+}
+
+export interface FirTree {
+  fir: string
+  /** Stations without a parent in the same FIR (e.g. the CTR sectors), sorted by id. */
+  roots: StationTreeNode[]
+  stationCount: number
+}
+
+/**
+ * Group stations by FIR and nest them along parent_id. A station whose parent is missing
+ * or in another FIR becomes a root; parent cycles are broken at the first repeated station.
+ */
+export function buildStationTree(stations: StationEntry[]): FirTree[] {
+  const byFir = new Map<string, StationEntry[]>()
+  for (const s of stations) {
+    const list = byFir.get(s.fir)
+    if (list) list.push(s)
+    else byFir.set(s.fir, [s])
+  }
+
+  return Array.from(byFir, ([fir, firStations]) => {
+    const ids = new Set(firStations.map((s) => s.id))
+    const childrenOf = new Map<string, StationEntry[]>()
+    const roots: StationEntry[] = []
+    for (const s of firStations) {
+      if (s.parent_id != null && s.parent_id !== s.id && ids.has(s.parent_id)) {
+        const list = childrenOf.get(s.parent_id)
+        if (list) list.push(s)
+        else childrenOf.set(s.parent_id, [s])
+      } else {
+        roots.push(s)
+      }
+    }
+
+    const placed = new Set<string>()
+    const build = (station: StationEntry): StationTreeNode => {
+      placed.add(station.id)
+      const children = (childrenOf.get(station.id) ?? [])
+        .filter((c) => !placed.has(c.id))
+        .sort((a, b) => a.id.localeCompare(b.id))
+        .map(build)
+      return { station, children }
+    }
+    const nodes = roots.sort((a, b) => a.id.localeCompare(b.id)).map(build)
+    // Stations only reachable through a parent cycle
+    for (const s of firStations) if (!placed.has(s.id)) nodes.push(build(s))
+
+    return { fir, roots: nodes, stationCount: firStations.length }
+  }).sort((a, b) => a.fir.localeCompare(b.fir))
+}
@@ -0,0 +1,42 @@
+import type { TabbedProfile } from '../types'
+import type { StationEntry } from './vacsStations'
+import { forEachKey, type KeyLocation } from './profileWalk'
+
+/**
+ * Station usage report for the profile's FIRs: dataset stations in those FIRs that no key
+ * references (any tab, any subpage level), and keys whose station belongs to another FIR.
+ * Station IDs that are not in the dataset at all are left to the problems panel.
+ */
+
+export interface ForeignStationKey extends KeyLocation {
+  stationId: string
+  fir: string
+}
+
+export interface StationUsageReport {
+  unused: StationEntry[]
+  outside: ForeignStationKey[]
+}
+
+export function getStationUsage(
+  profile: TabbedProfile,
+  byId: Map<string, StationEntry>,
+  firs: ReadonlySet<string>
+): StationUsageReport {
+  const used = new Set<string>()
+  const outside: ForeignStationKey[] = []
+  forEachKey(profile, (key, location) => {
+    const stationId = key.station_id?.trim()
+    if (!stationId) return
+    used.add(stationId)
+    const station = byId.get(stationId)
+    if (station != null && !firs.has(station.fir)) outside.push({ ...location, stationId, fir: station.fir })
+  })
+
+  const unused: StationEntry[] = []
+  for (const station of byId.values()) {
+    if (firs.has(station.fir) && !used.has(station.id)) unused.push(station)
+  }
+  unused.sort((a, b) => a.fir.localeCompare(b.fir) || a.id.localeCompare(b.id))
+  return { unused, outside }
+}
@@ -0,0 +1,116 @@
+/** Line-based diff (Myers) for comparing serialized profiles. */
+
+export interface DiffLine {
+  type: 'same' | 'added' | 'removed'
+  text: string
+  /** 1-based line numbers in the old / new text. */
+  beforeLine?: number
+  afterLine?: number
+}
+
+export interface DiffHunk {
+  lines: DiffLine[]
+}
+
+/** Past this many added plus removed lines diffLines gives up (cost grows with the number of edits). */
+export const MAX_DIFF_EDITS = 2000
+
+/**
+ * Myers diff of the lines; null when they differ in more than MAX_DIFF_EDITS lines.
+ * Time and memory grow with the number of changed lines rather than with the document size squared.
+ */
+export function diffLines(before: string, after: string): DiffLine[] | null {
+  const a = before.split('\n')
+  const b = after.split('\n')
+  // Common prefix/suffix are cheap and leave only the changed middle for the edit search
+  let start = 0
+  while (start < a.length && start < b.length && a[start] === b[start]) start++
+  let endA = a.length
+  let endB = b.length
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--
+    endB--
+  }
+
+  const n = endA - start
+  const m = endB - start
+  const max = Math.min(n + m, MAX_DIFF_EDITS)
+  const offset = max + 1
+  // v[offset + k] = furthest x reached on diagonal k (x - y = k); trace[d] is the part of v that round d reads
+  const v = new Int32Array(2 * max + 3)
+  const trace: Int32Array[] = []
+  let edits = -1
+  for (let d = 0; d <= max && edits < 0; d++) {
+    trace.push(v.slice(offset - d - 1, offset + d + 2))
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1]) ? v[offset + k + 1] : v[offset + k - 1] + 1
+      let y = x - k
+      while (x < n && y < m && a[start + x] === b[start + y]) {
+        x++
+        y++
+      }
+      v[offset + k] = x
+      if (x >= n && y >= m) {
+        edits = d
+        break
+      }
+    }
+  }
+  if (edits < 0) return null
+
+  // Walk the edit path back from the end, collecting the middle in reverse
+  const middle: DiffLine[] = []
+  let x = n
+  let y = m
+  for (let d = edits; d >= 0; d--) {
+    const prev = trace[d]
+    const at = (k: number) => prev[k + d + 1]
+    const k = x - y
+    const prevK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1
+    const prevX = at(prevK)
+    const prevY = prevX - prevK
+    while (x > prevX && y > prevY) {
+      middle.push({ type: 'same', text: a[start + x - 1], beforeLine: start + x, afterLine: start + y })
+      x--
+      y--
+    }
+    if (d === 0) break
+    if (x === prevX) {
+      middle.push({ type: 'added', text: b[start + y - 1], afterLine: start + y })
+      y--
+    } else {
+      middle.push({ type: 'removed', text: a[start + x - 1], beforeLine: start + x })
+      x--
+    }
+  }
+
+  const result: DiffLine[] = []
+  for (let k = 0; k < start; k++) result.push({ type: 'same', text: a[k], beforeLine: k + 1, afterLine: k + 1 })
+  for (let k = middle.length - 1; k >= 0; k--) result.push(middle[k])
+  for (let k = 0; k < a.length - endA; k++) {
+    result.push({ type: 'same', text: a[endA + k], beforeLine: endA + k + 1, afterLine: endB + k + 1 })
+  }
+  return result
+}
+
+/** Group changed lines with `context` unchanged lines around them; unchanged stretches in between are dropped. */
+export function toHunks(lines: DiffLine[], context = 3): DiffHunk[] {
+  const hunks: DiffHunk[] = []
+  let current: DiffLine[] | null = null
+  let lastChange = -Infinity
+  lines.forEach((line, i) => {
+    if (line.type !== 'same') {
+      if (current == null || i - lastChange > context * 2) {
+        current = lines.slice(Math.max(0, i - context), i)
+        hunks.push({ lines: current })
+      } else {
+        current.push(...lines.slice(lastChange + 1 + context, i))
+      }
+      current.push(line)
+      lastChange = i
+    } else if (current != null && i - lastChange <= context) {
+      current.push(line)
+    }
+  })
+  return hunks
+}
@@ -1,14 +1,24 @@
+import { parse as parseToml, TomlError } from 'smol-toml'
+import { formatDatasetSource, sameDatasetSource, type DatasetSource } from './datasetSource'
+
 /**
- * Load station IDs from vacs-project/vacs-data dataset on GitHub.
- * Discovers all FIRs dynamically; supports stations.toml and stations.json.
- * Extracts station `id`, `fir`, `parent_id`, and `controlled_by` (for tooltips).
+ * Load station IDs from the vacs-data dataset on GitHub (vacs-project/vacs-data@main or any fork/ref, see datasetSource).
+ * Discovers all FIRs dynamically; supports stations and positions files in toml or json.
+ * Keeps each full station/position record; `id`, `fir`, `parent_id` and `controlled_by` (stations)
+ * and `prefixes`, `frequency`, `facility_type` (positions) are lifted out for matching and tooltips.
+ * Files that cannot be fetched or parsed are reported per file.
  *
- * Uses a single GitHub API call (recursive tree) to discover all station files,
+ * Uses a single GitHub API call (recursive tree) to discover all dataset files,
  * then fetches raw content from raw.githubusercontent.com (not rate-limited).
  */
 
-const TREE_API = 'https://api.github.com/repos/vacs-project/vacs-data/git/trees/main?recursive=1'
-const RAW_BASE = 'https://raw.githubusercontent.com/vacs-project/vacs-data/main/dataset'
+function treeApiUrl(source: DatasetSource): string {
+  return `https://api.github.com/repos/${source.owner}/${source.repo}/git/trees/${encodeURIComponent(source.ref)}?recursive=1`
+}
+
+function rawBaseUrl(source: DatasetSource): string {
+  return `https://raw.githubusercontent.com/${source.owner}/${source.repo}/${source.ref}/dataset`
+}
 
 /** Optional token for higher GitHub API rate limits (5k/hr vs 60/hr). Set VITE_GITHUB_TOKEN in .env.local */
 const GITHUB_TOKEN = import.meta.env.VITE_GITHUB_TOKEN as string | undefined
@@ -26,131 +36,299 @@ export interface StationEntry {
   parent_id?: string
   /** Station IDs that control this station (for tooltips). */
   controlled_by?: string[]
+  /** The full record as written in the stations file, including fields the editor does not interpret. */
+  record: Record<string, unknown>
+}
+
+/** A position (controller login) from positions.toml/json; stations reference it in `controlled_by`. */
+export interface PositionEntry {
+  id: string
+  fir: string
+  /** Callsign prefixes a VATSIM login must start with to take this position. */
+  prefixes: string[]
+  frequency?: string
+  facility_type?: string
+  /** The full record as written in the positions file. */
+  record: Record<string, unknown>
 }
 
+/** A dataset file that could not be fetched or parsed, or a record in it that was skipped or malformed. */
+export interface StationFileError {
+  fir: string
+  fileName: string
+  message: string
+}
+
+type DatasetFileKind = 'stations' | 'positions'
+
 interface StationFileRef {
   fir: string
   fileName: string
+  kind: DatasetFileKind
+}
+
+/** Stations as loaded from one dataset tree. */
+export interface StationDataset {
+  stations: StationEntry[]
+  /** Per-file problems; the stations of an affected FIR are missing or incomplete. */
+  errors: StationFileError[]
+  /** Positions of the same tree, sorted by id. */
+  positions: PositionEntry[]
+  /** Repository and ref the dataset was loaded from; null for a local folder or zip. */
+  source: DatasetSource | null
+  /** Git tree SHA the stations were read from; unchanged SHA means unchanged stations. */
+  treeSha: string
+  /** Epoch ms when the dataset was last fetched or confirmed current. */
+  fetchedAt: number
 }
 
 /**
- * Discover all station files in a single API call using the Git Trees API (recursive).
- * Returns a list of { fir, fileName } for each dataset/{fir}/stations.toml or stations.json found.
- * When both toml and json exist for the same FIR, toml is preferred.
+ * Discover all dataset files in a single API call using the Git Trees API (recursive).
+ * Returns the tree SHA and a list of { fir, fileName, kind } for each dataset/{fir}/stations|positions.toml|json found.
+ * When both toml and json exist for the same FIR and kind, toml is preferred.
  */
-async function discoverStationFiles(): Promise<StationFileRef[]> {
-  const res = await fetch(TREE_API, { headers: apiHeaders() })
+async function discoverStationFiles(source: DatasetSource): Promise<{ treeSha: string; files: StationFileRef[] }> {
+  const res = await fetch(treeApiUrl(source), { headers: apiHeaders() })
+  if (res.status === 404 || res.status === 422) {
+    throw new Error(`${formatDatasetSource(source)} not found: check owner, repository and ref`)
+  }
   if (!res.ok) throw new Error(`Failed to fetch repo tree: ${res.status} ${res.statusText}`)
   const data = await res.json()
   const tree: { path: string; type: string }[] = data.tree ?? []
+  const treeSha: string = data.sha ?? ''
+
+  const files = selectStationFiles(tree.filter((entry) => entry.type === 'blob').map((entry) => entry.path))
+  return { treeSha, files }
+}
 
-  // Match paths like "dataset/{FIR}/stations.toml" or "dataset/{FIR}/stations.json"
-  const stationFileRe = /^dataset\/([^/]+)\/(stations\.(?:toml|json))$/
-  const byFir = new Map<string, StationFileRef>()
+// Match paths like "dataset/{FIR}/stations.toml" or "dataset/{FIR}/positions.json"
+const DATASET_FILE_RE = /^dataset\/([^/]+)\/((stations|positions)\.(?:toml|json))$/
 
-  for (const entry of tree) {
-    if (entry.type !== 'blob') continue
-    const m = stationFileRe.exec(entry.path)
+/** One file per FIR and kind (toml preferred over json), with the path it was found at. */
+function selectStationFiles(paths: string[]): (StationFileRef & { path: string })[] {
+  const byFirAndKind = new Map<string, StationFileRef & { path: string }>()
+  for (const path of paths) {
+    const m = DATASET_FILE_RE.exec(path)
     if (!m) continue
     const fir = m[1]
     const fileName = m[2]
-    const existing = byFir.get(fir)
+    const kind = m[3] as DatasetFileKind
+    const existing = byFirAndKind.get(`${kind}:${fir}`)
     // Prefer toml over json
     if (!existing || (existing.fileName.endsWith('.json') && fileName.endsWith('.toml'))) {
-      byFir.set(fir, { fir, fileName })
+      byFirAndKind.set(`${kind}:${fir}`, { fir, fileName, kind, path })
     }
   }
+  return Array.from(byFirAndKind.values())
+}
 
-  return Array.from(byFir.values())
-}
-
-/** Parse TOML: extract id, parent_id, and controlled_by for each [[stations]] block. */
-function parseTomlStations(text: string): { id: string; parent_id?: string; controlled_by: string[] }[] {
-  const result: { id: string; parent_id?: string; controlled_by: string[] }[] = []
-  const blockRe = /\[\[stations\]\]\s*([\s\S]*?)(?=\[\[stations\]\]|$)/g
-  let block: RegExpExecArray | null
-  while ((block = blockRe.exec(text)) !== null) {
-    const section = block[1]
-    const idM = /id\s*=\s*"([^"]+)"/.exec(section)
-    if (!idM) continue
-    const parentIdM = /parent_id\s*=\s*["']([^"']*)["']/.exec(section)
-    const parent_id = parentIdM?.[1] ? parentIdM[1].trim() || undefined : undefined
-    const controlledBy: string[] = []
-    const arrayMatch = /controlled_by\s*=\s*\[([\s\S]*?)\]/m.exec(section)
-    if (arrayMatch) {
-      const quotedRe = /"([^"]+)"/g
-      let q: RegExpExecArray | null
-      while ((q = quotedRe.exec(arrayMatch[1])) !== null) controlledBy.push(q[1])
-    }
-    result.push({ id: idM[1], parent_id, controlled_by: controlledBy })
+/** Parse file contents as TOML or JSON by extension; TOML errors are reduced to one line with the position. */
+function parseDatasetFile(ref: StationFileRef, text: string): unknown {
+  if (ref.fileName.endsWith('.json')) return JSON.parse(text)
+  try {
+    return parseToml(text)
+  } catch (err) {
+    // TomlError messages end with a code excerpt; keep the first line and the position
+    if (err instanceof TomlError) throw new Error(`${err.message.split('\n')[0]} (line ${err.line}, column ${err.column})`)
+    throw err
   }
-  return result
-}
-
-/** Parse JSON station file: array of { id, parent_id?, controlled_by? } or { stations: [...] }. */
-function parseJsonStations(data: unknown): { id: string; parent_id?: string; controlled_by: string[] }[] {
-  const result: { id: string; parent_id?: string; controlled_by: string[] }[] = []
-  let arr: unknown[] = []
-  if (Array.isArray(data)) arr = data
-  else if (data != null && typeof data === 'object' && Array.isArray((data as { stations?: unknown[] }).stations))
-    arr = (data as { stations: unknown[] }).stations
-  for (const item of arr) {
-    if (item == null || typeof item !== 'object' || typeof (item as { id?: string }).id !== 'string') continue
-    const obj = item as { id: string; parent_id?: unknown; controlled_by?: unknown }
-    const parent_id = typeof obj.parent_id === 'string' ? obj.parent_id : undefined
-    const controlled_by = Array.isArray(obj.controlled_by)
-      ? obj.controlled_by.filter((x): x is string => typeof x === 'string')
+}
+
+/**
+ * Records of a parsed file: `{ stations: [...] }` / `{ positions: [...] }` (TOML array of tables, JSON) or a bare JSON array.
+ * Calls `visit` for each record that is a table with an id; everything else is reported as a problem.
+ */
+function forEachRecord(
+  data: unknown,
+  kind: DatasetFileKind,
+  problems: string[],
+  visit: (record: Record<string, unknown>, id: string) => void
+): void {
+  let items: unknown[]
+  if (Array.isArray(data)) items = data
+  else if (data != null && typeof data === 'object' && Array.isArray((data as Record<string, unknown>)[kind])) {
+    items = (data as Record<string, unknown[]>)[kind]
+  } else throw new Error(`No "${kind}" array`)
+
+  items.forEach((item, i) => {
+    if (item == null || typeof item !== 'object' || Array.isArray(item)) {
+      problems.push(`${kind}[${i}] is not a table`)
+      return
+    }
+    const record = { ...item } as Record<string, unknown>
+    if (typeof record.id !== 'string' || record.id.trim() === '') {
+      problems.push(`${kind}[${i}] has no id`)
+      return
+    }
+    visit(record, record.id)
+  })
+}
+
+/**
+ * Parse one stations file. Throws when the file is not valid TOML/JSON;
+ * records that cannot be used (no id, wrong field types) are returned as problems.
+ */
+function parseStationFile(ref: StationFileRef, text: string): { stations: StationEntry[]; problems: string[] } {
+  const stations: StationEntry[] = []
+  const problems: string[] = []
+  forEachRecord(parseDatasetFile(ref, text), 'stations', problems, (record, id) => {
+    if (record.parent_id !== undefined && typeof record.parent_id !== 'string') {
+      problems.push(`${id}: parent_id is not a string`)
+    }
+    if (record.controlled_by !== undefined && !isStringArray(record.controlled_by)) {
+      problems.push(`${id}: controlled_by is not an array of strings`)
+    }
+    const parent_id = typeof record.parent_id === 'string' ? record.parent_id.trim() || undefined : undefined
+    const controlled_by = Array.isArray(record.controlled_by)
+      ? record.controlled_by.filter((x): x is string => typeof x === 'string')
       : []
-    result.push({ id: obj.id, parent_id, controlled_by })
+    stations.push({
+      id,
+      fir: ref.fir,
+      parent_id,
+      controlled_by: controlled_by.length ? controlled_by : undefined,
+      record,
+    })
+  })
+  return { stations, problems }
+}
+
+/** Parse one positions file, like parseStationFile. */
+function parsePositionFile(ref: StationFileRef, text: string): { positions: PositionEntry[]; problems: string[] } {
+  const positions: PositionEntry[] = []
+  const problems: string[] = []
+  forEachRecord(parseDatasetFile(ref, text), 'positions', problems, (record, id) => {
+    if (record.prefixes !== undefined && !isStringArray(record.prefixes)) {
+      problems.push(`${id}: prefixes is not an array of strings`)
+    }
+    for (const field of ['frequency', 'facility_type'] as const) {
+      if (record[field] !== undefined && typeof record[field] !== 'string') problems.push(`${id}: ${field} is not a string`)
+    }
+    positions.push({
+      id,
+      fir: ref.fir,
+      prefixes: Array.isArray(record.prefixes) ? record.prefixes.filter((x): x is string => typeof x === 'string') : [],
+      frequency: typeof record.frequency === 'string' ? record.frequency : undefined,
+      facility_type: typeof record.facility_type === 'string' ? record.facility_type : undefined,
+      record,
+    })
+  })
+  return { positions, problems }
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((x) => typeof x === 'string')
+}
+
+function errorMessage(err: unknown): string {
+  return err instanceof Error ? err.message : String(err)
+}
+
+/**
+ * Build a dataset from dataset file contents in the given order (first FIR wins on duplicate ids).
+ * A file that could not be fetched (`error`) or parsed is recorded in `errors` instead of being skipped silently.
+ */
+function buildDataset(
+  files: (StationFileRef & ({ text: string } | { error: string }))[],
+  source: DatasetSource | null,
+  treeSha: string
+): StationDataset {
+  const byId = new Map<string, StationEntry>()
+  const positionsById = new Map<string, PositionEntry>()
+  const errors: StationFileError[] = []
+  for (const file of files) {
+    const ref: StationFileRef = { fir: file.fir, fileName: file.fileName, kind: file.kind }
+    const report = (message: string) => errors.push({ fir: ref.fir, fileName: ref.fileName, message })
+    if ('error' in file) {
+      report(file.error)
+      continue
+    }
+    try {
+      if (ref.kind === 'positions') {
+        const { positions, problems } = parsePositionFile(ref, file.text)
+        for (const e of positions) if (!positionsById.has(e.id)) positionsById.set(e.id, e)
+        problems.forEach(report)
+      } else {
+        const { stations, problems } = parseStationFile(ref, file.text)
+        for (const e of stations) if (!byId.has(e.id)) byId.set(e.id, e)
+        problems.forEach(report)
+      }
+    } catch (err) {
+      report(errorMessage(err))
+    }
   }
-  return result
+  const stations = Array.from(byId.values()).sort((a, b) => a.id.localeCompare(b.id))
+  const positions = Array.from(positionsById.values()).sort((a, b) => a.id.localeCompare(b.id))
+  return { stations, errors, positions, source, treeSha, fetchedAt: Date.now() }
 }
 
-/** Fetch and parse stations for one FIR given the already-known file name (no API call). */
-async function fetchStationsForFir(ref: StationFileRef): Promise<StationEntry[]> {
-  const url = `${RAW_BASE}/${encodeURIComponent(ref.fir)}/${ref.fileName}`
+/** Fetch one dataset file given the already-known file name (no API call). */
+async function fetchStationFile(source: DatasetSource, ref: StationFileRef): Promise<string> {
+  const url = `${rawBaseUrl(source)}/${encodeURIComponent(ref.fir)}/${ref.fileName}`
   const res = await fetch(url)
-  if (!res.ok) return []
-
-  const text = await res.text()
-  const isJson = ref.fileName.endsWith('.json')
-  const entries = isJson ? parseJsonStations(JSON.parse(text)) : parseTomlStations(text)
-  return entries.map((e) => ({
-    id: e.id,
-    fir: ref.fir,
-    parent_id: e.parent_id,
-    controlled_by: e.controlled_by?.length ? e.controlled_by : undefined,
-  }))
+  if (!res.ok) throw new Error(`Failed to fetch: ${res.status} ${res.statusText}`)
+  return res.text()
 }
 
-let inflight: Promise<StationEntry[]> | null = null
+let inflight: { key: string; promise: Promise<StationDataset> } | null = null
 
 /**
- * Load all stations from the vacs-data dataset.
- * Makes exactly ONE GitHub API call (recursive tree) to discover all station files,
+ * Load all stations from the vacs-data dataset at `source`.
+ * Makes exactly ONE GitHub API call (recursive tree) to discover all station and position files,
  * then fetches raw content files from raw.githubusercontent.com (not rate-limited).
- * Result is deduplicated by id (first FIR wins), sorted by id.
- * Concurrent calls share the same in-flight promise; result is NOT cached after completion.
+ * When `known` is from the same source and has the same tree SHA, the raw files are skipped and `known` is returned as current.
+ * Result is deduplicated by id (first FIR in tree order wins), sorted by id.
+ * Concurrent calls for the same source share the in-flight promise; persisting is up to the caller (see stationCache).
  */
-export function loadStations(): Promise<StationEntry[]> {
-  if (inflight != null) return inflight
-  const p = (async (): Promise<StationEntry[]> => {
-    const stationFiles = await discoverStationFiles()
-    const byId = new Map<string, StationEntry>()
-    await Promise.all(
-      stationFiles.map(async (ref) => {
-        try {
-          const entries = await fetchStationsForFir(ref)
-          for (const e of entries) if (!byId.has(e.id)) byId.set(e.id, e)
-        } catch {
-          // skip this FIR
-        }
-      })
+export function loadStations(source: DatasetSource, known?: StationDataset | null): Promise<StationDataset> {
+  const key = formatDatasetSource(source)
+  if (inflight != null && inflight.key === key) return inflight.promise
+  const p = (async (): Promise<StationDataset> => {
+    const { treeSha, files: stationFiles } = await discoverStationFiles(source)
+    const knownIsCurrent =
+      known?.source != null && sameDatasetSource(known.source, source) && treeSha !== '' && known.treeSha === treeSha
+    if (known != null && knownIsCurrent) {
+      return { ...known, fetchedAt: Date.now() }
+    }
+    const files = await Promise.all(
+      stationFiles.map((ref) =>
+        fetchStationFile(source, ref).then(
+          (text) => ({ ...ref, text }),
+          (err: unknown) => ({ ...ref, error: errorMessage(err) })
+        )
+      )
     )
-    const list = Array.from(byId.values()).sort((a, b) => a.id.localeCompare(b.id))
-    return list
+    return buildDataset(files, source, treeSha)
   })()
-  inflight = p
-  p.finally(() => { inflight = null })
+  const entry = { key, promise: p }
+  inflight = entry
+  // Clear on success and failure; the rejection itself is handled by whoever awaits `p`
+  const clear = () => {
+    if (inflight === entry) inflight = null
+  }
+  p.then(clear, clear)
   return p
 }
+
+/**
+ * Build a dataset from local files (a vacs-data checkout or zip), e.g. a branch with stations not on main yet.
+ * Paths may have any prefix before `dataset/` (checkout folder name, zip root folder).
+ * Files that fail to parse are reported in `errors`, like unreachable files on GitHub.
+ */
+export function loadStationsFromFiles(files: { path: string; text: string }[]): StationDataset {
+  const textByPath = new Map<string, string>()
+  for (const file of files) {
+    const path = `/${file.path.replace(/\\/g, '/')}`
+    const idx = path.indexOf('/dataset/')
+    if (idx >= 0) textByPath.set(path.slice(idx + 1), file.text)
+  }
+  const refs = selectStationFiles(Array.from(textByPath.keys()).sort())
+  if (!refs.some((ref) => ref.kind === 'stations')) {
+    throw new Error('No dataset/{FIR}/stations.toml or stations.json files found')
+  }
+  return buildDataset(
+    refs.map((ref) => ({ fir: ref.fir, fileName: ref.fileName, kind: ref.kind, text: textByPath.get(ref.path)! })),
+    null,
+    ''
+  )
+}
@@ -1,11 +1,23 @@
-import type { TabbedProfile, Tab, DirectAccessKey, DirectAccessPage } from '../types';
+import type { TabbedProfile, Tab, DirectAccessKey, DirectAccessPage, ClientPageConfig } from '../types';
+import { PROFILE_FIELDS, TAB_FIELDS, PAGE_FIELDS, KEY_FIELDS, unknownFields } from '../types';
 
 export interface ValidationError {
   path: string;
   message: string;
 }
 
-export function validateProfile(data: unknown): { ok: true; profile: TabbedProfile } | { ok: false; errors: ValidationError[] } {
+export interface ValidationOptions {
+  /**
+   * Accept what normalizeProfile repairs and reports on import: missing rows, missing key labels
+   * and key labels with more than 3 lines. Off by default, e.g. for pasted fragments.
+   */
+  allowRepairable?: boolean;
+}
+
+export function validateProfile(
+  data: unknown,
+  options: ValidationOptions = {}
+): { ok: true; profile: TabbedProfile } | { ok: false; errors: ValidationError[] } {
   const errors: ValidationError[] = [];
 
   if (data == null || typeof data !== 'object') {
@@ -27,39 +39,7 @@ export function validateProfile(data: unknown): { ok: true; profile: TabbedProfi
   }
 
   const tabs = Array.isArray(obj.tabs) ? obj.tabs : [];
-  tabs.forEach((t, i) => {
-    if (t == null || typeof t !== 'object') {
-      errors.push({ path: `tabs[${i}]`, message: 'Tab must be an object' });
-      return;
-    }
-    const tab = t as Record<string, unknown>;
-    if (typeof tab.label === 'string') {
-      if (tab.label.trim() === '') {
-        errors.push({ path: `tabs[${i}].label`, message: 'Tab label must be non-empty' });
-      }
-    } else if (Array.isArray(tab.label)) {
-      if (tab.label.length === 0) {
-        errors.push({ path: `tabs[${i}].label`, message: 'Tab label must be non-empty' });
-      } else if (tab.label.some((l) => typeof l !== 'string')) {
-        errors.push({ path: `tabs[${i}].label`, message: 'Tab label must be an array of strings' });
-      } else if (tab.label.length > 3) {
-        errors.push({ path: `tabs[${i}].label`, message: 'Tab label can have at most 3 lines' });
-      }
-    } else {
-      errors.push({ path: `tabs[${i}].label`, message: 'Tab label must be a string or array of strings' });
-    }
-    if (tab.page == null || typeof tab.page !== 'object') {
-      errors.push({ path: `tabs[${i}].page`, message: 'Tab must have a page' });
-    } else {
-      const page = tab.page as Record<string, unknown>;
-      if (typeof page.rows !== 'number' || page.rows < 1) {
-        errors.push({ path: `tabs[${i}].page.rows`, message: 'Rows must be at least 1' });
-      }
-      if (page.keys != null && !Array.isArray(page.keys)) {
-        errors.push({ path: `tabs[${i}].page.keys`, message: 'Keys must be an array' });
-      }
-    }
-  });
+  tabs.forEach((t, i) => validateTab(t, `tabs[${i}]`, errors, options));
 
   if (errors.length > 0) {
     return { ok: false, errors };
@@ -71,48 +51,221 @@ export function validateProfile(data: unknown): { ok: true; profile: TabbedProfi
   };
 }
 
+/** Validate a tab (legacy string labels allowed) and everything on its page. */
+export function validateTab(value: unknown, path: string, errors: ValidationError[], options: ValidationOptions = {}): void {
+  if (value == null || typeof value !== 'object') {
+    errors.push({ path, message: 'Tab must be an object' });
+    return;
+  }
+  const tab = value as Record<string, unknown>;
+  if (typeof tab.label === 'string') {
+    if (tab.label.trim() === '') {
+      errors.push({ path: `${path}.label`, message: 'Tab label must be non-empty' });
+    }
+  } else if (Array.isArray(tab.label)) {
+    if (tab.label.length === 0) {
+      errors.push({ path: `${path}.label`, message: 'Tab label must be non-empty' });
+    } else if (tab.label.some((l) => typeof l !== 'string')) {
+      errors.push({ path: `${path}.label`, message: 'Tab label must be an array of strings' });
+    } else if (tab.label.length > 3) {
+      errors.push({ path: `${path}.label`, message: 'Tab label can have at most 3 lines' });
+    }
+  } else {
+    errors.push({ path: `${path}.label`, message: 'Tab label must be a string or array of strings' });
+  }
+  if (tab.page == null || typeof tab.page !== 'object') {
+    errors.push({ path: `${path}.page`, message: 'Tab must have a page' });
+  } else {
+    validatePage(tab.page, `${path}.page`, errors, options);
+  }
+}
+
+/** Validate a page and, recursively, every key and subpage on it. */
+export function validatePage(value: unknown, path: string, errors: ValidationError[], options: ValidationOptions = {}): void {
+  if (value == null || typeof value !== 'object' || Array.isArray(value)) {
+    errors.push({ path, message: 'Page must be an object' });
+    return;
+  }
+  const page = value as Record<string, unknown>;
+  const rowsMissing = page.rows === undefined && options.allowRepairable === true;
+  if (!rowsMissing && (typeof page.rows !== 'number' || page.rows < 1)) {
+    errors.push({ path: `${path}.rows`, message: 'Rows must be at least 1' });
+  }
+  if (page.client_page != null) {
+    validateClientPage(page.client_page, `${path}.client_page`, errors);
+  }
+  if (page.keys == null) return;
+  if (!Array.isArray(page.keys)) {
+    errors.push({ path: `${path}.keys`, message: 'Keys must be an array' });
+    return;
+  }
+  page.keys.forEach((k, i) => validateKey(k, `${path}.keys[${i}]`, errors, options));
+}
+
+export function validateKey(value: unknown, path: string, errors: ValidationError[], options: ValidationOptions = {}): void {
+  if (value == null || typeof value !== 'object' || Array.isArray(value)) {
+    errors.push({ path, message: 'Key must be an object' });
+    return;
+  }
+  const key = value as Record<string, unknown>;
+  let labelError: string | null;
+  if (options.allowRepairable === true) {
+    // normalizeKey fills in a missing label and keeps the first 3 lines (both reported)
+    labelError = key.label === undefined ? null : validateKeyLabelShape(key.label);
+  } else {
+    labelError = validateKeyLabel(key.label);
+  }
+  if (labelError != null) {
+    errors.push({ path: `${path}.label`, message: labelError });
+  }
+  if (key.station_id !== undefined && typeof key.station_id !== 'string') {
+    errors.push({ path: `${path}.station_id`, message: 'Station ID must be a string' });
+  }
+  if (key.page !== undefined) {
+    validatePage(key.page, `${path}.page`, errors, options);
+  }
+}
+
+const CLIENT_PAGE_PATTERN_FIELDS = ['include', 'exclude', 'priority'] as const;
+
+function validateClientPage(value: unknown, path: string, errors: ValidationError[]): void {
+  if (typeof value !== 'object' || Array.isArray(value)) {
+    errors.push({ path, message: 'Client page must be an object' });
+    return;
+  }
+  const clientPage = value as Record<string, unknown>;
+  for (const field of CLIENT_PAGE_PATTERN_FIELDS) {
+    const patterns = clientPage[field];
+    if (patterns == null) continue;
+    if (!Array.isArray(patterns) || patterns.some((p) => typeof p !== 'string')) {
+      errors.push({ path: `${path}.${field}`, message: 'Must be an array of strings' });
+    }
+  }
+  for (const field of ['frequencies', 'grouping'] as const) {
+    if (clientPage[field] != null && typeof clientPage[field] !== 'string') {
+      errors.push({ path: `${path}.${field}`, message: 'Must be a string' });
+    }
+  }
+}
+
 export function validateKeyLabel(label: unknown): string | null {
   if (!Array.isArray(label)) return 'Label must be an array of strings';
   if (label.length > 3) return 'Label can have at most 3 lines';
+  return validateKeyLabelShape(label);
+}
+
+function validateKeyLabelShape(label: unknown): string | null {
+  if (!Array.isArray(label)) return 'Label must be an array of strings';
   if (label.some((l) => typeof l !== 'string')) return 'Each label line must be a string';
   return null;
 }
 
-export function normalizeProfile(profile: TabbedProfile): TabbedProfile {
+/** One adjustment normalizeProfile made to loaded data, so it can be shown to the user. */
+export interface NormalizationChange {
+  path: string;
+  message: string;
+  before: unknown;
+  after: unknown;
+}
+
+export type RecordChange = (path: string, message: string, before: unknown, after: unknown) => void;
+
+const ignoreChange: RecordChange = () => {};
+
+/**
+ * Coerce a validated profile into the shape the editor works with.
+ * Unknown properties are kept on every object so they survive a save.
+ * Pass `changes` to collect every adjustment (what the saved file will differ in).
+ */
+export function normalizeProfile(profile: TabbedProfile, changes?: NormalizationChange[]): TabbedProfile {
+  const record: RecordChange = (path, message, before, after) => {
+    changes?.push({ path, message, before, after });
+  };
+  const id = profile.id.trim();
+  if (id !== profile.id) record('id', 'Trimmed whitespace', profile.id, id);
   return {
-    id: profile.id.trim(),
+    ...unknownFields(profile, PROFILE_FIELDS),
+    id,
     type: 'Tabbed',
-    tabs: profile.tabs.map((tab): Tab => {
-      const page = tab.page as { rows?: number; keys?: DirectAccessKey[]; client_page?: unknown } | undefined
-      // Handle legacy string label or new string[] label
-      const rawLabel = tab.label as unknown as string | string[]
-      const label = Array.isArray(rawLabel) ? rawLabel.map(l => l.trim()) : [rawLabel.trim()]
-      
-      if (page?.client_page != null) {
-        return { label, page: { rows: Math.max(1, Math.floor(page.rows ?? 4)), client_page: page.client_page } }
-      }
-      return {
-        label,
-        page: {
-          rows: Math.max(1, Math.floor(page?.rows ?? 4)),
-          keys: (page?.keys ?? []).map((k): DirectAccessKey => ({
-            label: Array.isArray(k.label) ? k.label.slice(0, 3).map((l) => String(l)) : [],
-            ...(k.station_id != null && k.station_id !== '' ? { station_id: String(k.station_id) } : {}),
-            ...(k.page != null ? { page: normalizePage(k.page) } : {}),
-          })),
-        },
-      }
-    }),
+    tabs: profile.tabs.map((tab, i) => normalizeTab(tab, `tabs[${i}]`, record)),
+  };
+}
+
+/** Normalize one validated tab (see normalizeProfile), e.g. a pasted one. */
+export function normalizeTab(tab: Tab, path = '', record: RecordChange = ignoreChange): Tab {
+  // Handle legacy string label or new string[] label
+  const rawLabel = tab.label as unknown as string | string[];
+  let label: string[];
+  if (Array.isArray(rawLabel)) {
+    label = rawLabel.map((l) => l.trim());
+  } else {
+    label = [rawLabel.trim()];
+    record(`${path}.label`, 'Converted legacy string label to an array', rawLabel, label);
+  }
+  if (Array.isArray(rawLabel) && label.some((l, li) => l !== rawLabel[li])) {
+    record(`${path}.label`, 'Trimmed whitespace', rawLabel, label);
+  }
+  const page = (tab.page ?? {}) as { rows?: number; keys?: DirectAccessKey[]; client_page?: ClientPageConfig };
+  return { ...unknownFields(tab, TAB_FIELDS), label, page: normalizePage(page, `${path}.page`, record) };
+}
+
+function normalizeRows(rows: number | undefined, path: string, record: RecordChange): number {
+  if (rows == null) {
+    record(path, 'Set missing rows to 4', rows, 4);
+    return 4;
+  }
+  const result = Math.max(1, Math.floor(rows));
+  if (result !== rows) {
+    record(path, result > rows ? 'Raised rows to the minimum of 1' : 'Rounded rows down to a whole number', rows, result);
+  }
+  return result;
+}
+
+export function normalizePage(
+  page: { rows?: number; keys?: DirectAccessKey[]; client_page?: ClientPageConfig },
+  path = '',
+  record: RecordChange = ignoreChange
+): DirectAccessPage {
+  const rows = normalizeRows(page.rows, `${path}.rows`, record);
+  const extra = unknownFields(page, PAGE_FIELDS);
+  if (page.client_page != null) {
+    return { ...extra, rows, client_page: normalizeClientPage(page.client_page, `${path}.client_page`, record) };
+  }
+  return {
+    ...extra,
+    rows,
+    keys: (page.keys ?? []).map((k, i) => normalizeKey(k, `${path}.keys[${i}]`, record)),
   };
 }
 
-function normalizePage(page: { rows?: number; keys?: DirectAccessKey[]; client_page?: unknown }): DirectAccessPage {
+export function normalizeKey(k: DirectAccessKey, path = '', record: RecordChange = ignoreChange): DirectAccessKey {
+  let label: string[] = [];
+  if (!Array.isArray(k.label)) {
+    record(`${path}.label`, 'Added missing label as an empty label', k.label, label);
+  } else {
+    label = k.label.slice(0, 3).map((l) => String(l));
+    if (k.label.length > 3) record(`${path}.label`, 'Kept only the first 3 label lines', k.label, label);
+  }
+  if (k.station_id === '') record(`${path}.station_id`, 'Removed empty station ID', k.station_id, undefined);
   return {
-    rows: Math.max(1, Math.floor(page.rows ?? 4)),
-    keys: (page.keys ?? []).map((k): DirectAccessKey => ({
-      label: Array.isArray(k.label) ? k.label.slice(0, 3).map((l) => String(l)) : [],
-      ...(k.station_id != null && k.station_id !== '' ? { station_id: String(k.station_id) } : {}),
-      ...(k.page != null ? { page: normalizePage(k.page) } : {}),
-    })),
+    ...unknownFields(k, KEY_FIELDS),
+    label,
+    ...(k.station_id != null && k.station_id !== '' ? { station_id: String(k.station_id) } : {}),
+    ...(k.page != null ? { page: normalizePage(k.page, `${path}.page`, record) } : {}),
   };
 }
+
+/** Trim patterns and drop empty ones; fields this editor does not know are passed through untouched. */
+function normalizeClientPage(clientPage: ClientPageConfig, path: string, record: RecordChange): ClientPageConfig {
+  const result: ClientPageConfig = { ...clientPage };
+  for (const field of CLIENT_PAGE_PATTERN_FIELDS) {
+    const patterns = clientPage[field];
+    if (patterns == null) continue;
+    const cleaned = patterns.map((p) => p.trim()).filter((p) => p !== '');
+    if (cleaned.length !== patterns.length || cleaned.some((p, i) => p !== patterns[i])) {
+      record(`${path}.${field}`, 'Trimmed patterns and removed empty ones', patterns, cleaned);
+    }
+    result[field] = cleaned;
+  }
+  return result;
+}
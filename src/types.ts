@@ -1,6 +1,9 @@
 /**
  * VACS tabbed profile types (profiles.md).
- * Only Tabbed profiles; no client_page in editor.
+ * Only Tabbed profiles; pages hold either direct-access keys or a client page.
+ *
+ * Loaded objects may carry properties this editor does not model (newer schema
+ * additions); they are kept on the objects and written back after the known fields.
  */
 
 export interface DirectAccessKey {
@@ -9,11 +12,32 @@ export interface DirectAccessKey {
   page?: DirectAccessPage;
 }
 
+/** Known values for `client_page.frequencies`; other strings are kept as-is. */
+export const CLIENT_PAGE_FREQUENCIES = ['ShowAll', 'HideAll'] as const;
+
+/** Known values for `client_page.grouping`; other strings are kept as-is. */
+export const CLIENT_PAGE_GROUPINGS = ['None', 'Fir', 'Icao', 'FirAndIcao'] as const;
+
+/**
+ * Dynamic client list shown instead of keys.
+ * Pattern lists use vacs glob syntax (e.g. `LOVV_*`); omitted fields use the client defaults.
+ */
+export interface ClientPageConfig {
+  /** Callsign patterns of clients to show. */
+  include?: string[];
+  /** Callsign patterns of clients to hide, applied after `include`. */
+  exclude?: string[];
+  /** Callsign patterns listed first, in this order. */
+  priority?: string[];
+  frequencies?: string;
+  grouping?: string;
+}
+
 export interface DirectAccessPage {
   rows: number;
   keys?: DirectAccessKey[];
-  /** Client page config (not edited in this app); when set, keys is absent */
-  client_page?: unknown;
+  /** Client page config; when set, keys is absent */
+  client_page?: ClientPageConfig;
 }
 
 export interface Tab {
@@ -27,6 +51,22 @@ export interface TabbedProfile {
   tabs: Tab[];
 }
 
+/** Modelled fields per object, in vacs-data output order. */
+export const PROFILE_FIELDS = ['id', 'type', 'tabs'] as const;
+export const TAB_FIELDS = ['label', 'page'] as const;
+export const PAGE_FIELDS = ['rows', 'keys', 'client_page'] as const;
+export const KEY_FIELDS = ['label', 'station_id', 'page'] as const;
+export const CLIENT_PAGE_FIELDS = ['include', 'exclude', 'priority', 'frequencies', 'grouping'] as const;
+
+/** Properties of `obj` not listed in `known`, in their original order. */
+export function unknownFields(obj: object, known: readonly string[]): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+  for (const [field, value] of Object.entries(obj)) {
+    if (!known.includes(field)) result[field] = value;
+  }
+  return result;
+}
+
 export function createDefaultProfile(): TabbedProfile {
   return {
     id: 'NEW',
@@ -39,3 +79,13 @@ export function createDefaultProfile(): TabbedProfile {
     ],
   };
 }
+
+export function createDefaultClientPage(): ClientPageConfig {
+  return {
+    include: [],
+    exclude: [],
+    priority: [],
+    frequencies: 'ShowAll',
+    grouping: 'None',
+  };
+}